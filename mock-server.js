@@ -0,0 +1,249 @@
+// Local stand-in for the AssemblyAI v2 API (upload, start transcript, poll transcript)
+// Usage:
+//   node mock-server.js [--port 8787] [--scenario default] [--scenarios ./my-scenarios.json]
+//
+// Point the app at http://localhost:8787/v2 (Settings -> API base URL, or VITE_ASSEMBLY_AI_BASE_URL).
+// A scenario can also be picked per base URL: http://localhost:8787/scenario/<name>/v2
+import fs from 'fs';
+import http from 'http';
+import path from 'path';
+
+const args = process.argv.slice(2);
+const getArg = (name, fallback) => {
+  const index = args.indexOf(`--${name}`);
+  return index !== -1 && args[index + 1] ? args[index + 1] : fallback;
+};
+
+const PORT = Number(getArg('port', process.env.MOCK_PORT || 8787));
+const DEFAULT_SCENARIO = getArg('scenario', process.env.MOCK_SCENARIO || 'default');
+const SCENARIOS_FILE = getArg('scenarios', process.env.MOCK_SCENARIOS_FILE);
+
+const UTTERANCES = [
+  { speaker: 'A', start: 480, end: 6200, confidence: 0.93, text: 'Good morning everyone, let us start with a quick round of updates.' },
+  { speaker: 'B', start: 6900, end: 14100, confidence: 0.91, text: 'Yesterday I finished the export feature and today I am looking at the polling bug.' },
+  { speaker: 'A', start: 14500, end: 17300, confidence: 0.95, text: 'Great, do you need any help with that?' },
+  { speaker: 'C', start: 18000, end: 26400, confidence: 0.89, text: 'I can pair on it after lunch, I touched that code last month.' },
+  { speaker: 'B', start: 26800, end: 29900, confidence: 0.92, text: 'Sounds good, thanks a lot.' },
+];
+
+// Word-level data derived from the utterances (evenly spaced inside each utterance)
+const toWords = (utterances) => utterances.flatMap((utterance) => {
+  const tokens = utterance.text.split(/\s+/);
+  const step = (utterance.end - utterance.start) / tokens.length;
+  return tokens.map((token, index) => ({
+    text: token,
+    start: Math.round(utterance.start + index * step),
+    end: Math.round(utterance.start + (index + 1) * step),
+    confidence: utterance.confidence,
+    speaker: utterance.speaker,
+  }));
+});
+
+const completed = (overrides = {}) => ({
+  status: 'completed',
+  text: UTTERANCES.map(u => u.text).join(' '),
+  language_code: 'en',
+  audio_duration: 31.2,
+  utterances: UTTERANCES.map(u => ({ ...u, words: toWords([u]) })),
+  words: toWords(UTTERANCES),
+  ...overrides,
+});
+
+/**
+ * Built-in scenarios
+ * - steps: statuses returned by successive polls before the final result
+ * - result: body fields of the final poll response
+ * - *DelayMs: artificial latency per endpoint
+ * - pollErrors: HTTP status to return instead, keyed by poll request number (1-based)
+ */
+const BUILT_IN_SCENARIOS = {
+  default: {
+    description: 'queued -> processing -> completed with utterances',
+    steps: ['queued', 'processing'],
+    result: completed(),
+  },
+  error: {
+    description: 'processing -> error status',
+    steps: ['queued', 'processing'],
+    result: { status: 'error', error: 'Mock error: audio file could not be transcoded' },
+  },
+  'words-only': {
+    description: 'completed without utterances, speakers only on words',
+    steps: ['processing'],
+    result: completed({ utterances: null }),
+  },
+  'empty-utterances': {
+    description: 'completed with no speech detected',
+    steps: ['processing'],
+    result: completed({ utterances: [], words: [], text: '' }),
+  },
+  flaky: {
+    description: 'transient 503/429 poll errors before completing',
+    steps: ['queued', 'processing'],
+    result: completed(),
+    pollErrors: { 1: 503, 3: 429 },
+  },
+  slow: {
+    description: 'long queue and processing with slow responses',
+    steps: ['queued', 'queued', 'queued', 'processing', 'processing', 'processing', 'processing'],
+    result: completed(),
+    uploadDelayMs: 3000,
+    transcriptDelayMs: 1000,
+    pollDelayMs: 2000,
+  },
+};
+
+const loadScenarios = () => {
+  if (!SCENARIOS_FILE) {
+    return BUILT_IN_SCENARIOS;
+  }
+  const custom = JSON.parse(fs.readFileSync(path.resolve(SCENARIOS_FILE), 'utf8'));
+  return { ...BUILT_IN_SCENARIOS, ...custom };
+};
+
+const scenarios = loadScenarios();
+
+if (!scenarios[DEFAULT_SCENARIO]) {
+  console.error(`❌ Unknown scenario "${DEFAULT_SCENARIO}". Available: ${Object.keys(scenarios).join(', ')}`);
+  process.exit(1);
+}
+
+const jobs = new Map();
+let nextId = 1;
+
+const sleep = (ms) => new Promise(resolve => setTimeout(resolve, ms || 0));
+
+const sendJson = (res, status, body) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+  });
+  res.end(JSON.stringify(body));
+};
+
+const readBody = (req) => new Promise((resolve, reject) => {
+  const chunks = [];
+  req.on('data', chunk => chunks.push(chunk));
+  req.on('end', () => resolve(Buffer.concat(chunks)));
+  req.on('error', reject);
+});
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url, `http://${req.headers.host}`);
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, POST, DELETE, OPTIONS',
+      'Access-Control-Allow-Headers': 'authorization, content-type',
+    });
+    res.end();
+    return;
+  }
+
+  // Optional /scenario/<name> prefix selects the scenario for this request
+  let pathname = url.pathname;
+  let scenarioName = DEFAULT_SCENARIO;
+  const scenarioMatch = pathname.match(/^\/scenario\/([^/]+)(\/.*)$/);
+  if (scenarioMatch) {
+    scenarioName = decodeURIComponent(scenarioMatch[1]);
+    pathname = scenarioMatch[2];
+  }
+  const scenario = scenarios[scenarioName];
+
+  console.log(`${req.method} ${url.pathname}`);
+
+  if (!scenario) {
+    sendJson(res, 404, { error: `Unknown mock scenario "${scenarioName}"` });
+    return;
+  }
+
+  if (!req.headers.authorization) {
+    sendJson(res, 401, { error: 'Authentication error, API token missing/invalid' });
+    return;
+  }
+
+  try {
+    // Upload
+    if (req.method === 'POST' && pathname === '/v2/upload') {
+      const body = await readBody(req);
+      await sleep(scenario.uploadDelayMs);
+      if (body.length === 0) {
+        sendJson(res, 400, { error: 'Upload body is empty' });
+        return;
+      }
+      const fileId = `mock-file-${nextId++}`;
+      sendJson(res, 200, { upload_url: `http://${req.headers.host}/files/${fileId}` });
+      return;
+    }
+
+    // Start transcription
+    if (req.method === 'POST' && pathname === '/v2/transcript') {
+      let body;
+      try {
+        body = JSON.parse((await readBody(req)).toString() || '{}');
+      } catch (error) {
+        sendJson(res, 400, { error: `Invalid JSON body: ${error.message}` });
+        return;
+      }
+      await sleep(scenario.transcriptDelayMs);
+      if (!body.audio_url) {
+        sendJson(res, 400, { error: 'audio_url is required' });
+        return;
+      }
+      const id = `mock-${scenarioName}-${nextId++}`;
+      jobs.set(id, { id, scenario, request: body, polls: 0, requests: 0 });
+      sendJson(res, 200, { id, status: 'queued', audio_url: body.audio_url });
+      return;
+    }
+
+    // Poll transcription
+    const transcriptMatch = pathname.match(/^\/v2\/transcript\/([^/]+)$/);
+    if (req.method === 'GET' && transcriptMatch) {
+      const job = jobs.get(transcriptMatch[1]);
+      if (!job) {
+        sendJson(res, 404, { error: 'Transcript not found' });
+        return;
+      }
+      await sleep(job.scenario.pollDelayMs);
+      job.requests++;
+      const injectedStatus = job.scenario.pollErrors?.[job.requests];
+      if (injectedStatus) {
+        res.setHeader('Retry-After', '1');
+        sendJson(res, injectedStatus, { error: `Mock transient error (${injectedStatus})` });
+        return;
+      }
+      const steps = job.scenario.steps || [];
+      const body = job.polls < steps.length
+        ? { status: steps[job.polls] }
+        : job.scenario.result;
+      job.polls++;
+      sendJson(res, 200, { id: job.id, audio_url: job.request.audio_url, ...body });
+      return;
+    }
+
+    // Delete transcription
+    if (req.method === 'DELETE' && transcriptMatch) {
+      const job = jobs.get(transcriptMatch[1]);
+      if (!job) {
+        sendJson(res, 404, { error: 'Transcript not found' });
+        return;
+      }
+      jobs.delete(job.id);
+      sendJson(res, 200, { id: job.id, audio_url: job.request.audio_url, status: 'completed', text: 'Deleted by user.' });
+      return;
+    }
+
+    sendJson(res, 404, { error: `No mock route for ${req.method} ${pathname}` });
+  } catch (error) {
+    sendJson(res, 500, { error: error.message });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`🧪 Mock AssemblyAI server listening on http://localhost:${PORT}/v2`);
+  console.log(`   Default scenario: ${DEFAULT_SCENARIO}`);
+  Object.entries(scenarios).forEach(([name, scenario]) => {
+    console.log(`   - ${name}: ${scenario.description || ''} (http://localhost:${PORT}/scenario/${name}/v2)`);
+  });
+});
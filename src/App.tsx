@@ -4,11 +4,47 @@ import { SpeakerStats } from './components/SpeakerStats';
 import { ApiKeyInput } from './components/ApiKeyInput';
 import { ApiInfo } from './components/ApiInfo';
 import { History } from './components/History';
+import { PendingJobs } from './components/PendingJobs';
+import { TranscriptionOptionsPanel } from './components/TranscriptionOptionsPanel';
 import { audioRecorderService } from './services/AudioRecorderService';
-import { speakerDiarizationService } from './services/SpeakerDiarizationService';
+import { speakerDiarizationService, TranscriptionResult } from './services/SpeakerDiarizationService';
+import { TranscriptionCancelledError } from './services/providers';
 import { HistoryService } from './services/HistoryService';
-import { RecordingState, ApiRequestInfo, HistoryItem } from './types';
-import { API_CONFIG } from './config';
+import { PendingJobService } from './services/PendingJobService';
+import { AudioStorageService } from './services/AudioStorageService';
+import { computeMeetingAnalytics, computeParityScore } from './services/analytics';
+import {
+  applySegmentEdits,
+  applySegmentReassignment,
+  applySpeakerMerge,
+  createSpeakerLabel,
+  hasActiveSegmentEdits,
+  SpeakerData,
+} from './services/speakerEdits';
+import {
+  RecordingState,
+  ApiRequestInfo,
+  HistoryItem,
+  MeetingTypeId,
+  ParityMetric,
+  ParitySettings,
+  DiarizationSegment,
+  PendingJob,
+  SegmentEdit,
+  SpeakerEditSnapshot,
+  SpeakerMerge,
+  StatsOptions,
+  TranscriptionOptions,
+} from './types';
+import {
+  API_CONFIG,
+  getAudioRetention,
+  getParitySettings,
+  getTranscriptionOptions,
+  saveAudioRetention,
+  saveParitySettings,
+  saveTranscriptionOptions,
+} from './config';
 import './App.css';
 
 const App: React.FC = () => {
@@ -17,8 +53,14 @@ const App: React.FC = () => {
     isProcessing: false,
     duration: 0,
     speakers: [],
+    segments: [],
+    words: undefined,
+    transcriptionOptions: undefined,
+    analytics: undefined,
+    parity: undefined,
     error: null,
     apiInfo: null,
+    provider: null,
   });
 
   const intervalRef = useRef<NodeJS.Timeout | null>(null);
@@ -29,25 +71,84 @@ const App: React.FC = () => {
   const [history, setHistory] = useState<HistoryItem[]>([]);
   const [currentHistoryId, setCurrentHistoryId] = useState<string | null>(null);
   const [lastSavedTranscriptId, setLastSavedTranscriptId] = useState<string | null>(null);
+  const [pendingJobs, setPendingJobs] = useState<PendingJob[]>([]);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const [deleteRemoteOnCancel, setDeleteRemoteOnCancel] = useState(false);
+  const [transcriptionOptions, setTranscriptionOptions] = useState<TranscriptionOptions>(getTranscriptionOptions);
+  const [paritySettings, setParitySettings] = useState<ParitySettings>(getParitySettings);
+  const [audioUrl, setAudioUrl] = useState<string | null>(null);
+  const sessionAudioRef = useRef<{ blob: Blob; name: string } | null>(null);
+  const audioRequestRef = useRef(0);
+  const [keepAudio, setKeepAudio] = useState<boolean>(getAudioRetention);
+  // History item whose stored audio is being re-processed; its results are replaced when done
+  const reprocessItemRef = useRef<HistoryItem | null>(null);
+  // Speaker edits of the result on screen that can be undone, most recent last
+  const [speakerEditUndo, setSpeakerEditUndo] = useState<SpeakerEditSnapshot[]>([]);
+  // Audit trail written by the last speaker edit, ahead of the history reload that follows it
+  const speakerEditHistoryRef = useRef<{ id: string; history: SpeakerEditSnapshot['history'] } | null>(null);
+
+  const currentHistoryItem = history.find(item => item.id === currentHistoryId);
+
+  // Undo only applies to the result it was made on
+  useEffect(() => {
+    setSpeakerEditUndo([]);
+    speakerEditHistoryRef.current = null;
+  }, [currentHistoryId]);
+
+  /**
+   * Edit audit trail of the result on screen, including edits whose save hasn't been reloaded yet
+   */
+  const getSpeakerEditHistory = (): SpeakerEditSnapshot['history'] => {
+    const latest = speakerEditHistoryRef.current;
+    if (latest && latest.id === currentHistoryId) {
+      return latest.history;
+    }
+    return {
+      segmentEdits: currentHistoryItem?.segmentEdits,
+      originalSegments: currentHistoryItem?.originalSegments,
+      originalWords: currentHistoryItem?.originalWords,
+    };
+  };
+
+  // Release the previous session's audio when it is replaced or the app unmounts
+  useEffect(() => {
+    return () => {
+      if (audioUrl) {
+        URL.revokeObjectURL(audioUrl);
+      }
+    };
+  }, [audioUrl]);
+
+  /**
+   * Replace the audio available for playback (and for storing with the history item)
+   */
+  const setSessionAudio = (audio: { blob: Blob; name: string } | null) => {
+    audioRequestRef.current++; // Any stored audio still loading is now stale
+    sessionAudioRef.current = audio;
+    setAudioUrl(audio ? URL.createObjectURL(audio.blob) : null);
+  };
 
   useEffect(() => {
     // Configure API key from:
     // 1. Environment variable (.env file with VITE_ prefix)
     // 2. localStorage (if user entered it via UI)
     const apiKey = API_CONFIG.ASSEMBLY_AI_API_KEY;
+    speakerDiarizationService.setProvider(API_CONFIG.DIARIZATION_PROVIDER);
+    speakerDiarizationService.setBaseUrl(API_CONFIG.ASSEMBLY_AI_BASE_URL);
+    speakerDiarizationService.setPollingStrategy(API_CONFIG.POLLING_STRATEGY);
+
+    // Set up API info callback (also needed for on-device processing and keys entered later)
+    speakerDiarizationService.setApiInfoCallback((info) => {
+      setRecordingState(prev => ({
+        ...prev,
+        apiInfo: info as ApiRequestInfo,
+      }));
+    });
     
     if (apiKey && apiKey.trim()) {
       console.log('API key found and set');
       speakerDiarizationService.setApiKey(apiKey.trim());
       
-      // Set up API info callback
-      speakerDiarizationService.setApiInfoCallback((info) => {
-        setRecordingState(prev => ({
-          ...prev,
-          apiInfo: info as ApiRequestInfo,
-        }));
-      });
-      
       setApiKeySet(true);
       setShowApiKeyInput(false);
     } else {
@@ -55,9 +156,18 @@ const App: React.FC = () => {
       setShowApiKeyInput(true);
     }
 
-    // Load history from local storage
-    const savedHistory = HistoryService.getHistory();
-    setHistory(savedHistory);
+    // Load history from IndexedDB (moves anything still in localStorage over first)
+    HistoryService.getHistory()
+      .then(setHistory)
+      .catch(error => {
+        setRecordingState(prev => ({
+          ...prev,
+          error: (error instanceof Error && error.message) || 'Failed to load history',
+        }));
+      });
+
+    // Transcriptions interrupted by a reload can be resumed
+    setPendingJobs(PendingJobService.getPendingJobs());
 
     return () => {
       if (intervalRef.current) {
@@ -116,10 +226,17 @@ const App: React.FC = () => {
         isRecording: true,
         duration: 0,
         speakers: [],
+        segments: [],
+        words: undefined,
+        transcriptionOptions: undefined,
+        analytics: undefined,
+        parity: undefined,
         error: null,
         apiInfo: null,
+        provider: null,
       }));
       setCurrentHistoryId(null); // Clear history ID for new recording
+      setSessionAudio(null);
 
       // Update duration every second
       intervalRef.current = setInterval(() => {
@@ -180,8 +297,14 @@ const App: React.FC = () => {
         error: null,
         isProcessing: true,
         speakers: [],
+        segments: [],
+        words: undefined,
+        transcriptionOptions: undefined,
+        analytics: undefined,
+        parity: undefined,
         duration: 0,
         apiInfo: null,
+        provider: null,
       }));
       setCurrentHistoryId(null); // Clear history ID for new upload
 
@@ -219,6 +342,10 @@ const App: React.FC = () => {
 
 
   const processAudio = async (audioBlob: Blob | File, totalDuration: number, _fileName?: string) => {
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    // Keep the audio for playback for the rest of the session
+    setSessionAudio({ blob: audioBlob, name: _fileName || 'recorded audio' });
     try {
       console.log('Starting audio processing...', { 
         size: audioBlob.size, 
@@ -229,74 +356,165 @@ const App: React.FC = () => {
       // Get diarization segments
       // Pass filename if it's a File object
       const fileName = audioBlob instanceof File ? audioBlob.name : undefined;
-      const { segments, audioDuration } = await speakerDiarizationService.transcribeWithDiarization(
+      const result = await speakerDiarizationService.transcribeWithDiarization(
         audioBlob,
-        fileName
+        fileName,
+        {
+          sourceName: _fileName,
+          signal: abortController.signal,
+          audioDuration: totalDuration > 0 ? totalDuration : undefined,
+          transcriptionOptions,
+        }
       );
 
-      console.log('Received segments:', segments);
-      console.log('Number of segments:', segments.length);
-      console.log('Audio duration from API:', audioDuration, 'ms');
+      applyTranscriptionResult(result, totalDuration);
+    } catch (error) {
+      await handleProcessingError(error);
+    } finally {
+      abortControllerRef.current = null;
+      setPendingJobs(PendingJobService.getPendingJobs());
+    }
+  };
 
-      if (!segments || segments.length === 0) {
-        throw new Error('No speech segments found in the audio');
-      }
+  const handleResumePendingJob = async (job: PendingJob) => {
+    setRecordingState(prev => ({
+      ...prev,
+      error: null,
+      isProcessing: true,
+      speakers: [],
+      segments: [],
+      words: undefined,
+      transcriptionOptions: undefined,
+      analytics: undefined,
+      parity: undefined,
+      duration: 0,
+      apiInfo: null,
+      provider: null,
+    }));
+    setCurrentHistoryId(null);
+    setSessionAudio(null); // The audio of a resumed job is not available after a reload
 
-      // Use audio duration from API if available, otherwise use provided totalDuration
-      const actualTotalDuration = audioDuration > 0 ? audioDuration : totalDuration;
-      
-      // Calculate speaker statistics with total audio duration
-      const { speakers, totalDuration: calculatedTotalDuration } = speakerDiarizationService.calculateSpeakerStats(
-        segments,
-        actualTotalDuration
-      );
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    try {
+      console.log('Resuming transcription...', job);
+      const result = await speakerDiarizationService.resumeTranscription(job, abortController.signal);
+      applyTranscriptionResult(result, 0);
+    } catch (error) {
+      await handleProcessingError(error);
+    } finally {
+      abortControllerRef.current = null;
+      setPendingJobs(PendingJobService.getPendingJobs());
+    }
+  };
 
-      console.log('Calculated speakers:', speakers);
-      console.log('Number of speakers:', speakers.length);
-      console.log('Total audio duration:', calculatedTotalDuration, 'ms');
+  const handleTranscriptionOptionsChange = (options: TranscriptionOptions) => {
+    setTranscriptionOptions(options);
+    saveTranscriptionOptions(options);
+  };
 
-      if (!speakers || speakers.length === 0) {
-        throw new Error('No speakers detected in the audio');
-      }
+  const handleCancelProcessing = () => {
+    console.log('🛑 Cancelling processing...');
+    abortControllerRef.current?.abort();
+  };
 
-      // Use the calculated total duration (includes audio duration from API)
-      const finalTotalDuration = calculatedTotalDuration > 0 ? calculatedTotalDuration : actualTotalDuration;
+  const handleDiscardPendingJob = (job: PendingJob) => {
+    PendingJobService.removePendingJob(job.transcriptId);
+    setPendingJobs(PendingJobService.getPendingJobs());
+  };
 
-      console.log('Final speakers with percentages:', speakers);
-      console.log('Final total duration:', finalTotalDuration, 'ms');
+  /**
+   * Turn diarization segments into speaker stats and show them
+   * (history auto-save picks the result up from state)
+   */
+  const applyTranscriptionResult = (result: TranscriptionResult, totalDuration: number) => {
+    const { segments, words, audioDuration, provider, transcriptionOptions: usedOptions } = result;
 
-      console.log('About to update state with speakers:', speakers);
-      console.log('Current state before update:', recordingState);
+    console.log('Received segments:', segments);
+    console.log('Number of segments:', segments.length);
+    console.log('Audio duration from API:', audioDuration, 'ms');
 
-      setRecordingState(prev => {
-        const newState = {
-          ...prev,
-          speakers,
-          isProcessing: false,
-          duration: finalTotalDuration,
-          error: null,
-        };
-        console.log('New state after update:', newState);
-        return newState;
-      });
+    if (!segments || segments.length === 0) {
+      throw new Error('No speech segments found in the audio');
+    }
 
-      console.log('State update called');
-    } catch (error: any) {
-      console.error('Error processing audio:', error);
-      console.error('Error stack:', error?.stack);
-      
-      // Show the actual error message from AssemblyAI
-      let errorMessage = error?.message || 'Unknown error occurred';
-      
-      // Keep the full error message - don't simplify it
-      // The error message from AssemblyAI contains important details
-      
-      setRecordingState(prev => ({
+    // Use audio duration from API if available, otherwise use provided totalDuration
+    const actualTotalDuration = audioDuration > 0 ? audioDuration : totalDuration;
+    
+    // Calculate speaker statistics with total audio duration
+    const { speakers, totalDuration: calculatedTotalDuration } = speakerDiarizationService.calculateSpeakerStats(
+      segments,
+      actualTotalDuration
+    );
+
+    console.log('Calculated speakers:', speakers);
+    console.log('Number of speakers:', speakers.length);
+    console.log('Total audio duration:', calculatedTotalDuration, 'ms');
+
+    if (!speakers || speakers.length === 0) {
+      throw new Error('No speakers detected in the audio');
+    }
+
+    // Use the calculated total duration (includes audio duration from API)
+    const finalTotalDuration = calculatedTotalDuration > 0 ? calculatedTotalDuration : actualTotalDuration;
+
+    console.log('Final speakers with percentages:', speakers);
+    console.log('Final total duration:', finalTotalDuration, 'ms');
+
+    console.log('About to update state with speakers:', speakers);
+    console.log('Current state before update:', recordingState);
+
+    setRecordingState(prev => {
+      const newState = {
         ...prev,
+        speakers,
+        segments,
+        words,
+        transcriptionOptions: usedOptions,
+        analytics: computeMeetingAnalytics({ segments, words, totalDuration: finalTotalDuration }),
+        parity: computeParityScore(speakers, paritySettings),
         isProcessing: false,
-        error: errorMessage,
-      }));
+        duration: finalTotalDuration,
+        error: null,
+        provider,
+      };
+      console.log('New state after update:', newState);
+      return newState;
+    });
+
+    console.log('State update called');
+  };
+
+  const handleProcessingError = async (error: unknown) => {
+    reprocessItemRef.current = null;
+    if (error instanceof TranscriptionCancelledError) {
+      console.log('Processing cancelled by user');
+      if (deleteRemoteOnCancel && error.transcriptId && error.provider) {
+        try {
+          await speakerDiarizationService.deleteRemoteTranscript(error.provider, error.transcriptId);
+        } catch (deleteError) {
+          // The job is already abandoned locally; a leftover remote transcript is not worth an error
+          console.warn('Failed to delete remote transcript:', deleteError);
+        }
+      }
+      reset();
+      return;
     }
+
+    console.error('Error processing audio:', error);
+    console.error('Error stack:', error instanceof Error ? error.stack : undefined);
+    
+    // Show the actual error message from AssemblyAI
+    const errorMessage = (error instanceof Error && error.message) || 'Unknown error occurred';
+    
+    // Keep the full error message - don't simplify it
+    // The error message from AssemblyAI contains important details
+    
+    setRecordingState(prev => ({
+      ...prev,
+      isProcessing: false,
+      error: errorMessage,
+    }));
   };
 
   const reset = () => {
@@ -310,43 +528,357 @@ const App: React.FC = () => {
       isProcessing: false,
       duration: 0,
       speakers: [],
+      segments: [],
+      words: undefined,
+      transcriptionOptions: undefined,
+      analytics: undefined,
+      parity: undefined,
       error: null,
       apiInfo: null,
+      provider: null,
     });
     setCurrentHistoryId(null);
     setLastSavedTranscriptId(null);
+    setSessionAudio(null);
+    reprocessItemRef.current = null;
+  };
+
+  /**
+   * Apply a change to stored history, then reload the list; storage errors are shown like other errors
+   */
+  const updateHistory = async (change: () => Promise<void>, failureMessage: string): Promise<boolean> => {
+    try {
+      await change();
+      setHistory(await HistoryService.getHistory());
+      return true;
+    } catch (error) {
+      setRecordingState(prev => ({
+        ...prev,
+        error: (error instanceof Error && error.message) || failureMessage,
+      }));
+      return false;
+    }
   };
 
   const handleSpeakerRename = (speakerId: string, newName: string) => {
+    const speakers = recordingState.speakers.map(speaker =>
+      speaker.id === speakerId
+        ? { ...speaker, label: newName }
+        : speaker
+    );
     setRecordingState(prev => ({
       ...prev,
-      speakers: prev.speakers.map(speaker =>
-        speaker.id === speakerId
-          ? { ...speaker, label: newName }
-          : speaker
-      ),
+      speakers,
     }));
+
+    // Keep names on the saved item so they survive reloads and recomputes
+    if (currentHistoryId) {
+      updateHistory(
+        () => HistoryService.updateHistoryItem(currentHistoryId, { speakers }),
+        'Failed to save speaker names'
+      );
+    }
+  };
+
+  /**
+   * Change the meeting type, metric or target; the choice becomes the default for new results
+   */
+  const handleParityChange = (meetingType: MeetingTypeId, metric: ParityMetric, target: number) => {
+    const settings: ParitySettings = {
+      metric,
+      meetingType,
+      targets: { ...paritySettings.targets, [meetingType]: target },
+    };
+    saveParitySettings(settings);
+    setParitySettings(settings);
+
+    const parity = computeParityScore(recordingState.speakers, settings, meetingType);
+    setRecordingState(prev => ({ ...prev, parity }));
+    if (currentHistoryId) {
+      updateHistory(
+        () => HistoryService.updateHistoryItem(currentHistoryId, { parity }),
+        'Failed to save talk parity'
+      );
+    }
+  };
+
+  /**
+   * Recompute stats from edited segments (merged speakers, reassigned phrases), keeping speaker names,
+   * and save the result together with its audit trail
+   */
+  const applySpeakerEdit = (
+    description: string,
+    data: SpeakerData,
+    auditTrail: SpeakerEditSnapshot['history']
+  ) => {
+    const { speakers } = speakerDiarizationService.calculateSpeakerStats(
+      data.segments,
+      recordingState.duration,
+      currentHistoryItem?.statsOptions
+    );
+    const labeledSpeakers = speakerDiarizationService.carryOverSpeakerLabels(recordingState.speakers, speakers);
+    const edited = {
+      speakers: labeledSpeakers,
+      segments: data.segments,
+      words: data.words,
+      analytics: computeMeetingAnalytics({ ...data, totalDuration: recordingState.duration }),
+      parity: computeParityScore(labeledSpeakers, paritySettings, recordingState.parity?.meetingType),
+    };
+
+    setSpeakerEditUndo(prev => [...prev, {
+      description,
+      state: {
+        speakers: recordingState.speakers,
+        segments: recordingState.segments,
+        words: recordingState.words,
+        analytics: recordingState.analytics,
+        parity: recordingState.parity,
+      },
+      history: getSpeakerEditHistory(),
+    }]);
+    setRecordingState(prev => ({ ...prev, ...edited }));
+    if (currentHistoryId) {
+      speakerEditHistoryRef.current = { id: currentHistoryId, history: auditTrail };
+      updateHistory(
+        () => HistoryService.updateHistoryItem(currentHistoryId, { ...edited, ...auditTrail }),
+        'Failed to save speaker changes'
+      );
+    }
+  };
+
+  /**
+   * Audit trail with one more edit; the diarization output is kept as it was before the first edit
+   */
+  const withSegmentEdit = (edit: SegmentEdit): SpeakerEditSnapshot['history'] => {
+    const current = getSpeakerEditHistory();
+    const hasOriginal = !!current.originalSegments;
+    return {
+      segmentEdits: [...(current.segmentEdits || []), edit],
+      originalSegments: hasOriginal ? current.originalSegments : recordingState.segments,
+      originalWords: hasOriginal ? current.originalWords : recordingState.words,
+    };
+  };
+
+  /**
+   * Merge speakers that diarization split apart; the one with the most speaking time keeps its name
+   */
+  const handleMergeSpeakers = (speakerIds: string[]) => {
+    const selected = recordingState.speakers.filter(speaker => speakerIds.includes(speaker.id));
+    if (selected.length < 2) return;
+    const [target, ...others] = selected;
+    const merge: SpeakerMerge = {
+      target: target.sourceLabel || target.label,
+      merged: others.map(speaker => speaker.sourceLabel || speaker.label),
+    };
+    applySpeakerEdit(
+      `Merge ${others.map(speaker => speaker.label).join(', ')} into ${target.label}`,
+      applySpeakerMerge({ segments: recordingState.segments, words: recordingState.words }, merge),
+      withSegmentEdit({ type: 'merge', editedAt: Date.now(), ...merge })
+    );
+  };
+
+  /**
+   * Attribute a single segment (phrase) to another speaker, or to a new one if no label is given
+   */
+  const handleReassignSegment = (segment: DiarizationSegment, toLabel: string | null) => {
+    const to = toLabel || createSpeakerLabel(recordingState.segments);
+    if (to === segment.speaker) return;
+    const data = applySegmentReassignment(
+      { segments: recordingState.segments, words: recordingState.words },
+      { start: segment.start, end: segment.end, from: segment.speaker, to }
+    );
+    if (data.segments === recordingState.segments) {
+      console.warn('Segment to reassign not found:', segment);
+      return;
+    }
+
+    const getName = (label: string) =>
+      recordingState.speakers.find(speaker => (speaker.sourceLabel || speaker.label) === label)?.label || label;
+    const text = segment.text?.trim();
+    applySpeakerEdit(
+      `Move ${text ? `"${text.length > 40 ? `${text.slice(0, 40)}…` : text}"` : 'segment'} from ${getName(segment.speaker)} to ${getName(to)}`,
+      data,
+      withSegmentEdit({ type: 'reassign', editedAt: Date.now(), start: segment.start, end: segment.end, from: segment.speaker, to, text })
+    );
+  };
+
+  /**
+   * Go back to the diarization output from before any merges or reassignments (can be undone);
+   * the restore is added to the audit trail, which keeps the earlier edits
+   */
+  const handleRestoreOriginalSegments = () => {
+    const { originalSegments, originalWords } = getSpeakerEditHistory();
+    if (!originalSegments) return;
+    applySpeakerEdit(
+      'Restore original speakers',
+      { segments: originalSegments, words: originalWords },
+      withSegmentEdit({ type: 'restore', editedAt: Date.now() })
+    );
   };
 
-  const saveToHistory = (name: string) => {
+  const handleUndoSpeakerEdit = () => {
+    const last = speakerEditUndo[speakerEditUndo.length - 1];
+    if (!last) return;
+    // Names given after the edit are kept
+    const restored = {
+      ...last.state,
+      speakers: speakerDiarizationService.carryOverSpeakerLabels(recordingState.speakers, last.state.speakers),
+    };
+    setSpeakerEditUndo(prev => prev.slice(0, -1));
+    setRecordingState(prev => ({ ...prev, ...restored }));
+    if (currentHistoryId) {
+      speakerEditHistoryRef.current = { id: currentHistoryId, history: last.history };
+      updateHistory(
+        () => HistoryService.updateHistoryItem(currentHistoryId, { ...restored, ...last.history }),
+        'Failed to save speaker changes'
+      );
+    }
+  };
+
+  const saveToHistory = async (name: string) => {
     if (!recordingState.apiInfo?.transcriptId) {
       console.error('No transcript ID available');
       return;
     }
 
-    const historyItem: HistoryItem = {
-      id: `history-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-      name: name.trim() || 'Untitled Recording',
+    const result: Omit<HistoryItem, 'id' | 'name' | 'timestamp'> = {
       transcriptId: recordingState.apiInfo.transcriptId,
-      timestamp: Date.now(),
       speakers: recordingState.speakers,
       duration: recordingState.duration,
       apiInfo: recordingState.apiInfo,
+      provider: recordingState.provider || undefined,
+      segments: recordingState.segments,
+      words: recordingState.words,
+      transcriptionOptions: recordingState.transcriptionOptions,
+      analytics: recordingState.analytics,
+      parity: recordingState.parity,
+    };
+
+    // Re-processed stored audio replaces the results of its item; name and audio stay
+    const reprocessItem = reprocessItemRef.current;
+    if (reprocessItem) {
+      reprocessItemRef.current = null;
+      speakerEditHistoryRef.current = null;
+      const updated = await updateHistory(
+        () => HistoryService.updateHistoryItem(reprocessItem.id, {
+          ...result,
+          parity: computeParityScore(recordingState.speakers, paritySettings, reprocessItem.parity?.meetingType),
+          statsOptions: undefined,
+          recomputedAt: undefined,
+          detailTrimmed: undefined,
+          segmentEdits: undefined,
+          originalSegments: undefined,
+          originalWords: undefined,
+        }),
+        'Failed to save to history'
+      );
+      if (updated) {
+        setCurrentHistoryId(reprocessItem.id);
+      }
+      return;
+    }
+
+    const historyItem: HistoryItem = {
+      ...result,
+      id: `history-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      name: name.trim() || 'Untitled Recording',
+      timestamp: Date.now(),
     };
 
-    HistoryService.addHistoryItem(historyItem);
-    setHistory(HistoryService.getHistory());
+    const saved = await updateHistory(() => HistoryService.addHistoryItem(historyItem), 'Failed to save to history');
+    if (!saved) {
+      return;
+    }
     setCurrentHistoryId(historyItem.id);
+
+    if (keepAudio && sessionAudioRef.current) {
+      storeAudio(historyItem.id, sessionAudioRef.current);
+    }
+  };
+
+  /**
+   * Keep a history item's audio in IndexedDB and record its size on the item
+   */
+  const storeAudio = async (id: string, audio: { blob: Blob; name: string }) => {
+    try {
+      const audioSize = await AudioStorageService.saveAudio(id, audio.blob, audio.name);
+      await HistoryService.updateHistoryItem(id, { audioSize });
+      setHistory(await HistoryService.getHistory());
+    } catch (error) {
+      console.error('Error storing audio:', error);
+      setRecordingState(prev => ({
+        ...prev,
+        error: (error instanceof Error && error.message) || 'Failed to store audio',
+      }));
+    }
+  };
+
+  const handleKeepAudioChange = (enabled: boolean) => {
+    setKeepAudio(enabled);
+    saveAudioRetention(enabled);
+    // Keep the meeting on screen too, if its audio is still in memory
+    if (enabled && currentHistoryId && sessionAudioRef.current
+      && !history.find(item => item.id === currentHistoryId)?.audioSize) {
+      storeAudio(currentHistoryId, sessionAudioRef.current);
+    }
+  };
+
+  /**
+   * Delete a history item's audio but keep its statistics
+   */
+  const handleDeleteItemAudio = async (id: string) => {
+    try {
+      await AudioStorageService.deleteAudio(id);
+      await HistoryService.updateHistoryItem(id, { audioSize: undefined });
+      setHistory(await HistoryService.getHistory());
+      if (currentHistoryId === id) {
+        setSessionAudio(null);
+      }
+    } catch (error) {
+      console.error('Error deleting audio:', error);
+      setRecordingState(prev => ({
+        ...prev,
+        error: (error instanceof Error && error.message) || 'Failed to delete audio',
+      }));
+    }
+  };
+
+  /**
+   * Run a history item's stored audio through the current provider and options again
+   */
+  const handleReprocessHistoryItem = async (item: HistoryItem) => {
+    try {
+      const stored = await AudioStorageService.getAudio(item.id);
+      if (!stored) {
+        throw new Error('The audio of this meeting is no longer stored');
+      }
+      setRecordingState(prev => ({
+        ...prev,
+        error: null,
+        isProcessing: true,
+        speakers: [],
+        segments: [],
+        words: undefined,
+        transcriptionOptions: undefined,
+        analytics: undefined,
+        parity: undefined,
+        duration: 0,
+        apiInfo: null,
+        provider: null,
+      }));
+      setCurrentHistoryId(null);
+      reprocessItemRef.current = item;
+
+      const file = new File([stored.blob], stored.name, { type: stored.blob.type });
+      await processAudio(file, item.duration, stored.name);
+    } catch (error) {
+      console.error('Error re-processing history item:', error);
+      setRecordingState(prev => ({
+        ...prev,
+        isProcessing: false,
+        error: (error instanceof Error && error.message) || 'Failed to re-process audio',
+      }));
+    }
   };
 
   const handleLoadHistoryItem = (item: HistoryItem) => {
@@ -355,20 +887,93 @@ const App: React.FC = () => {
       isProcessing: false,
       duration: item.duration,
       speakers: item.speakers,
+      segments: item.segments || [],
+      words: item.words,
+      transcriptionOptions: item.transcriptionOptions,
+      // Items saved before analytics existed get them computed from their segments
+      analytics: item.analytics || computeMeetingAnalytics({
+        segments: item.segments || [],
+        words: item.words,
+        totalDuration: item.duration,
+      }),
+      parity: item.parity || computeParityScore(item.speakers, paritySettings),
       error: null,
       apiInfo: item.apiInfo || null,
+      provider: item.provider || null,
     });
     setCurrentHistoryId(item.id);
+    setSessionAudio(null);
+
+    if (item.audioSize) {
+      const request = audioRequestRef.current;
+      AudioStorageService.getAudio(item.id)
+        .then(stored => {
+          // Ignore if another item was loaded or processing started in the meantime
+          if (stored && request === audioRequestRef.current) {
+            setSessionAudio({ blob: stored.blob, name: stored.name });
+          }
+        })
+        .catch(error => console.warn('Could not load stored audio:', error));
+    }
+  };
+
+  /**
+   * Re-fetch a history item's transcript and recompute its stats with the given settings
+   */
+  const handleRecomputeHistoryItem = async (item: HistoryItem, statsOptions: StatsOptions) => {
+    try {
+      console.log('Re-fetching transcript for history item...', item.transcriptId);
+      const result = await speakerDiarizationService.refetchTranscript(item.provider, item.transcriptId);
+      // Merges and reassignments made by hand are applied again
+      const { segments, words } = applySegmentEdits(
+        { segments: result.segments, words: result.words },
+        item.segmentEdits
+      );
+      const { speakers, totalDuration } = speakerDiarizationService.calculateSpeakerStats(
+        segments,
+        result.audioDuration || item.duration,
+        statsOptions
+      );
+      if (speakers.length === 0) {
+        throw new Error('No speakers detected in the re-fetched transcript');
+      }
+
+      const updates: Partial<HistoryItem> = {
+        speakers: speakerDiarizationService.carryOverSpeakerLabels(item.speakers, speakers),
+        segments,
+        words,
+        analytics: computeMeetingAnalytics({ segments, words, totalDuration }),
+        parity: computeParityScore(speakers, paritySettings, item.parity?.meetingType),
+        duration: totalDuration,
+        provider: item.provider || result.provider,
+        statsOptions,
+        recomputedAt: Date.now(),
+        // The re-fetched transcript is the diarization output the edits start from
+        ...(item.segmentEdits?.length ? { originalSegments: result.segments, originalWords: result.words } : {}),
+      };
+      await HistoryService.updateHistoryItem(item.id, updates);
+      speakerEditHistoryRef.current = null;
+      setHistory(await HistoryService.getHistory());
+      handleLoadHistoryItem({ ...item, ...updates });
+    } catch (error) {
+      console.error('Error recomputing history item:', error);
+      setRecordingState(prev => ({
+        ...prev,
+        error: (error instanceof Error && error.message) || 'Failed to recompute statistics',
+      }));
+    }
   };
 
   const handleRenameHistoryItem = (id: string, newName: string) => {
-    HistoryService.updateHistoryItem(id, { name: newName });
-    setHistory(HistoryService.getHistory());
+    updateHistory(() => HistoryService.updateHistoryItem(id, { name: newName }), 'Failed to rename history item');
   };
 
-  const handleDeleteHistoryItem = (id: string) => {
-    HistoryService.deleteHistoryItem(id);
-    setHistory(HistoryService.getHistory());
+  const handleDeleteHistoryItem = async (id: string) => {
+    const deleted = await updateHistory(() => HistoryService.deleteHistoryItem(id), 'Failed to delete history item');
+    if (!deleted) {
+      return;
+    }
+    AudioStorageService.deleteAudio(id).catch(error => console.warn('Could not delete stored audio:', error));
     
     // If we deleted the currently loaded item, clear the state
     if (currentHistoryId === id) {
@@ -377,10 +982,16 @@ const App: React.FC = () => {
     }
   };
 
-  const handleClearHistory = () => {
-    HistoryService.clearHistory();
-    setHistory([]);
+  const handleImportHistory = (items: HistoryItem[]) =>
+    updateHistory(() => HistoryService.importHistoryItems(items), 'Failed to import history');
+
+  const handleClearHistory = async () => {
+    const cleared = await updateHistory(() => HistoryService.clearHistory(), 'Failed to clear history');
+    if (!cleared) {
+      return;
+    }
     setCurrentHistoryId(null);
+    AudioStorageService.clearAudio().catch(error => console.warn('Could not delete stored audio:', error));
   };
 
   return (
@@ -410,7 +1021,7 @@ const App: React.FC = () => {
           </div>
           {!apiKeySet && (
             <p className="header-warning">
-              ⚠️ API key not set - recordings will fail. Click ⚙️ to add your API key.
+              ⚠️ API key not set - audio will be analyzed on-device (speaking time only, no transcript). Click ⚙️ to add your API key.
             </p>
           )}
         </header>
@@ -425,8 +1036,37 @@ const App: React.FC = () => {
           onStopRecording={stopRecording}
           onReset={reset}
           onFileUpload={handleFileUpload}
+          onCancelProcessing={handleCancelProcessing}
+          deleteRemoteOnCancel={deleteRemoteOnCancel}
+          onDeleteRemoteOnCancelChange={
+            // The job's provider, which is on-device when no API key was set
+            recordingState.apiInfo?.provider
+              && speakerDiarizationService.canDeleteRemoteTranscript(recordingState.apiInfo.provider)
+              ? setDeleteRemoteOnCancel
+              : undefined
+          }
         />
 
+        {!recordingState.isRecording && !recordingState.isProcessing && (
+          <TranscriptionOptionsPanel
+            options={transcriptionOptions}
+            providerId={
+              apiKeySet || !speakerDiarizationService.getProvider().requiresApiKey
+                ? speakerDiarizationService.getProvider().id
+                : 'local'
+            }
+            onChange={handleTranscriptionOptionsChange}
+          />
+        )}
+
+        {!recordingState.isProcessing && (
+          <PendingJobs
+            jobs={pendingJobs}
+            onResume={handleResumePendingJob}
+            onDiscard={handleDiscardPendingJob}
+          />
+        )}
+
         {(recordingState.isProcessing || recordingState.apiInfo) && (
           <ApiInfo apiInfo={recordingState.apiInfo} />
         )}
@@ -435,9 +1075,15 @@ const App: React.FC = () => {
           history={history}
           onLoadItem={handleLoadHistoryItem}
           onRenameItem={handleRenameHistoryItem}
+          onRecomputeItem={handleRecomputeHistoryItem}
           onDeleteItem={handleDeleteHistoryItem}
           onClearHistory={handleClearHistory}
           activeItemId={currentHistoryId}
+          keepAudio={keepAudio}
+          onKeepAudioChange={handleKeepAudioChange}
+          onDeleteItemAudio={handleDeleteItemAudio}
+          onReprocessItem={handleReprocessHistoryItem}
+          onImportItems={handleImportHistory}
         />
 
         {recordingState.error && (
@@ -461,7 +1107,20 @@ const App: React.FC = () => {
           <SpeakerStats
             speakers={recordingState.speakers}
             totalDuration={recordingState.duration}
+            segments={recordingState.segments}
+            audioUrl={audioUrl}
+            reportTitle={currentHistoryItem?.name}
+            reportDate={currentHistoryItem?.timestamp}
+            analytics={recordingState.analytics}
+            parity={recordingState.parity}
+            parityTargets={paritySettings.targets}
             onSpeakerRename={handleSpeakerRename}
+            onParityChange={handleParityChange}
+            onMergeSpeakers={handleMergeSpeakers}
+            onReassignSegment={handleReassignSegment}
+            onRestoreOriginal={hasActiveSegmentEdits(getSpeakerEditHistory().segmentEdits) ? handleRestoreOriginalSegments : undefined}
+            onUndoSpeakerEdit={speakerEditUndo.length > 0 ? handleUndoSpeakerEdit : undefined}
+            undoDescription={speakerEditUndo[speakerEditUndo.length - 1]?.description}
           />
         )}
 
@@ -52,6 +52,30 @@ export const ApiInfo: React.FC<ApiInfoProps> = ({ apiInfo }) => {
             </span>
           </div>
         )}
+        {apiInfo.pollStrategy && (
+          <div className="api-info-item">
+            <span className="api-info-label">Polling:</span>
+            <span className="api-info-value">{apiInfo.pollStrategy}</span>
+          </div>
+        )}
+        {apiInfo.pollTimeout && (
+          <div className="api-info-item">
+            <span className="api-info-label">Poll Timeout:</span>
+            <span className="api-info-value">{formatTime(apiInfo.pollTimeout)}</span>
+          </div>
+        )}
+        {apiInfo.nextPollDelay !== undefined && apiInfo.transcriptStatus !== 'completed' && (
+          <div className="api-info-item">
+            <span className="api-info-label">Next Poll In:</span>
+            <span className="api-info-value">{formatTime(apiInfo.nextPollDelay)}</span>
+          </div>
+        )}
+        {!!apiInfo.pollRetries && (
+          <div className="api-info-item">
+            <span className="api-info-label">Poll Retries:</span>
+            <span className="api-info-value">{apiInfo.pollRetries}</span>
+          </div>
+        )}
         {apiInfo.totalProcessingTime && (
           <div className="api-info-item">
             <span className="api-info-label">Processing Time:</span>
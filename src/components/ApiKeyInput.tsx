@@ -1,6 +1,9 @@
 import React, { useState } from 'react';
 import { speakerDiarizationService } from '../services/SpeakerDiarizationService';
-import { saveApiKey } from '../config';
+import { PROVIDER_OPTIONS } from '../services/providers';
+import { ASSEMBLY_AI_API_URL } from '../services/providers/AssemblyAIProvider';
+import { clearBaseUrl, saveApiKey, saveBaseUrl, savePollingStrategy, saveProviderId } from '../config';
+import { DiarizationProviderId } from '../types';
 import './ApiKeyInput.css';
 
 interface ApiKeyInputProps {
@@ -11,6 +14,43 @@ interface ApiKeyInputProps {
 export const ApiKeyInput: React.FC<ApiKeyInputProps> = ({ onApiKeySet, onClose }) => {
   const [apiKey, setApiKey] = useState('');
   const [isVisible, setIsVisible] = useState(true);
+  const [providerId, setProviderId] = useState<DiarizationProviderId>(
+    speakerDiarizationService.getProvider().id
+  );
+
+  const [baseUrl, setBaseUrl] = useState(speakerDiarizationService.getBaseUrl() || '');
+  const [pollingStrategy, setPollingStrategy] = useState(speakerDiarizationService.getPollingStrategy());
+
+  const selectedProvider = PROVIDER_OPTIONS.find(option => option.id === providerId);
+
+  const handleProviderChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const newProviderId = e.target.value as DiarizationProviderId;
+    setProviderId(newProviderId);
+    // Apply immediately and persist for next sessions
+    speakerDiarizationService.setProvider(newProviderId);
+    saveProviderId(newProviderId);
+  };
+
+  const handleBaseUrlBlur = () => {
+    const trimmedUrl = baseUrl.trim();
+    speakerDiarizationService.setBaseUrl(trimmedUrl || undefined);
+    if (trimmedUrl) {
+      saveBaseUrl(trimmedUrl);
+    } else {
+      clearBaseUrl();
+    }
+  };
+
+  const handlePollingChange = (field: 'initialDelayMs' | 'maxDelayMs' | 'timeoutMultiplier', value: number) => {
+    setPollingStrategy(prev => ({ ...prev, [field]: value }));
+  };
+
+  const handlePollingBlur = () => {
+    speakerDiarizationService.setPollingStrategy(pollingStrategy);
+    savePollingStrategy(pollingStrategy);
+    // Show the values as they were applied (invalid entries fall back to defaults)
+    setPollingStrategy(speakerDiarizationService.getPollingStrategy());
+  };
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
@@ -52,6 +92,84 @@ export const ApiKeyInput: React.FC<ApiKeyInputProps> = ({ onApiKeySet, onClose }
             </button>
           )}
         </div>
+        <label className="api-key-provider">
+          <span className="api-key-provider-label">Diarization provider</span>
+          <select
+            className="api-key-field"
+            value={providerId}
+            onChange={handleProviderChange}
+          >
+            {PROVIDER_OPTIONS.map(option => (
+              <option key={option.id} value={option.id}>
+                {option.name}
+              </option>
+            ))}
+          </select>
+          {selectedProvider && (
+            <span className="api-key-provider-description">{selectedProvider.description}</span>
+          )}
+        </label>
+        {providerId === 'assemblyai' && (
+          <label className="api-key-provider">
+            <span className="api-key-provider-label">API base URL (optional)</span>
+            <input
+              type="url"
+              className="api-key-field"
+              placeholder={ASSEMBLY_AI_API_URL}
+              value={baseUrl}
+              onChange={(e) => setBaseUrl(e.target.value)}
+              onBlur={handleBaseUrlBlur}
+            />
+            <span className="api-key-provider-description">
+              Use <code>http://localhost:8787/v2</code> with <code>npm run mock:server</code> for offline development
+            </span>
+          </label>
+        )}
+        {providerId === 'assemblyai' && (
+          <div className="api-key-provider">
+            <span className="api-key-provider-label">Polling</span>
+            <div className="api-key-polling">
+              <label>
+                First poll after (s)
+                <input
+                  type="number"
+                  min={0}
+                  step={0.5}
+                  className="api-key-field"
+                  value={pollingStrategy.initialDelayMs / 1000}
+                  onChange={(e) => handlePollingChange('initialDelayMs', Number(e.target.value) * 1000)}
+                  onBlur={handlePollingBlur}
+                />
+              </label>
+              <label>
+                Max delay (s)
+                <input
+                  type="number"
+                  min={1}
+                  className="api-key-field"
+                  value={pollingStrategy.maxDelayMs / 1000}
+                  onChange={(e) => handlePollingChange('maxDelayMs', Number(e.target.value) * 1000)}
+                  onBlur={handlePollingBlur}
+                />
+              </label>
+              <label>
+                Timeout (× audio length)
+                <input
+                  type="number"
+                  min={0.1}
+                  step={0.1}
+                  className="api-key-field"
+                  value={pollingStrategy.timeoutMultiplier}
+                  onChange={(e) => handlePollingChange('timeoutMultiplier', Number(e.target.value))}
+                  onBlur={handlePollingBlur}
+                />
+              </label>
+            </div>
+            <span className="api-key-provider-description">
+              Polls start fast and back off with jitter; transient errors (429/5xx/network) are retried
+            </span>
+          </div>
+        )}
         <p className="api-key-description">
           To process real audio recordings, you need an AssemblyAI API key.
           <br />
@@ -82,7 +200,7 @@ export const ApiKeyInput: React.FC<ApiKeyInputProps> = ({ onApiKeySet, onClose }
               className="btn btn-secondary"
               onClick={handleSkip}
             >
-              Skip (Mock Mode)
+              Skip (Offline Mode)
             </button>
           </div>
         </form>
@@ -0,0 +1,47 @@
+import { forwardRef } from 'react';
+import './AudioPlayer.css';
+
+interface AudioPlayerProps {
+  src: string;
+  currentSpeaker?: { label: string; color: string };
+  currentText?: string;
+  onTimeUpdate: (seconds: number) => void;
+}
+
+/**
+ * Player for the analyzed audio; the parent seeks through the forwarded <audio> element
+ */
+export const AudioPlayer = forwardRef<HTMLAudioElement, AudioPlayerProps>(({
+  src,
+  currentSpeaker,
+  currentText,
+  onTimeUpdate,
+}, ref) => {
+  return (
+    <div className="audio-player">
+      <audio
+        ref={ref}
+        src={src}
+        controls
+        preload="metadata"
+        className="audio-player-element"
+        onTimeUpdate={(e) => onTimeUpdate(e.currentTarget.currentTime)}
+        onSeeked={(e) => onTimeUpdate(e.currentTarget.currentTime)}
+      />
+      <div className="audio-player-now">
+        {currentSpeaker ? (
+          <>
+            <span className="audio-player-speaker" style={{ color: currentSpeaker.color }}>
+              {currentSpeaker.label}
+            </span>
+            {currentText && <span className="audio-player-text">{currentText}</span>}
+          </>
+        ) : (
+          <span className="audio-player-hint">Click a phrase or a timeline segment to jump to it</span>
+        )}
+      </div>
+    </div>
+  );
+});
+
+AudioPlayer.displayName = 'AudioPlayer';
@@ -0,0 +1,114 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { DiarizationSegment } from '../types';
+import { buildCsvReport, buildHtmlReport, buildMarkdownReport, MeetingReportInput } from '../services/reports';
+import { buildPlainTranscript, buildSrt, buildWebVtt, hasTranscriptText } from '../services/subtitles';
+import { downloadFile, printHtml, toFileName } from '../services/download';
+import './ExportMenu.css';
+
+interface ExportMenuProps {
+  report: MeetingReportInput;
+  segments?: DiarizationSegment[]; // Enables subtitle and transcript formats when they carry text
+  buttonClassName?: string;
+}
+
+export const ExportMenu: React.FC<ExportMenuProps> = ({ report, segments, buttonClassName = 'export-menu-btn' }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close when clicking anywhere else
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  const fileName = toFileName(report.title);
+
+  const handleExport = (action: () => void) => {
+    action();
+    setIsOpen(false);
+  };
+
+  const options: { label: string; description: string; action: () => void }[] = [
+    {
+      label: 'CSV',
+      description: 'Per-speaker rows for spreadsheets',
+      // The BOM makes Excel read non-Latin speaker names correctly
+      action: () => downloadFile(`\uFEFF${buildCsvReport(report)}`, `${fileName}.csv`, 'text/csv;charset=utf-8'),
+    },
+    {
+      label: 'Markdown',
+      description: 'Summary and table for docs',
+      action: () => downloadFile(buildMarkdownReport(report), `${fileName}.md`, 'text/markdown;charset=utf-8'),
+    },
+    {
+      label: 'HTML report',
+      description: 'Standalone page, print-ready',
+      action: () => downloadFile(buildHtmlReport(report), `${fileName}.html`, 'text/html;charset=utf-8'),
+    },
+    {
+      label: 'Print / Save as PDF',
+      description: 'Opens the report in the print dialog',
+      action: () => {
+        if (!printHtml(buildHtmlReport(report))) {
+          window.alert('The report window was blocked. Allow pop-ups for this site, or download the HTML report instead.');
+        }
+      },
+    },
+  ];
+
+  // Captions use the current (renamed) speaker labels
+  if (segments && hasTranscriptText(segments)) {
+    options.push(
+      {
+        label: 'SRT subtitles',
+        description: 'Captions with speaker names',
+        action: () => downloadFile(buildSrt(segments, report.speakers), `${fileName}.srt`, 'application/x-subrip;charset=utf-8'),
+      },
+      {
+        label: 'WebVTT subtitles',
+        description: 'Captions with <v Speaker> voice tags',
+        action: () => downloadFile(buildWebVtt(segments, report.speakers), `${fileName}.vtt`, 'text/vtt;charset=utf-8'),
+      },
+      {
+        label: 'Transcript (text)',
+        description: 'Speaker-prefixed plain text',
+        action: () => downloadFile(buildPlainTranscript(segments, report.speakers), `${fileName}.txt`, 'text/plain;charset=utf-8'),
+      }
+    );
+  }
+
+  return (
+    <div className="export-menu" ref={menuRef}>
+      <button
+        className={buttonClassName}
+        onClick={() => setIsOpen(!isOpen)}
+        title="Export statistics or transcript"
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+      >
+        📤 Export
+      </button>
+      {isOpen && (
+        <div className="export-menu-list" role="menu">
+          {options.map(option => (
+            <button
+              key={option.label}
+              className="export-menu-item"
+              role="menuitem"
+              onClick={() => handleExport(option.action)}
+            >
+              <span className="export-menu-item-label">{option.label}</span>
+              <span className="export-menu-item-description">{option.description}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
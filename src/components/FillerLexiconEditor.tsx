@@ -0,0 +1,96 @@
+import React, { useState } from 'react';
+import { FillerLexicons } from '../types';
+import { LANGUAGE_NAMES } from '../services/analytics';
+import './FillerLexiconEditor.css';
+
+interface FillerLexiconEditorProps {
+  lexicons: FillerLexicons;
+  onSave: (lexicons: FillerLexicons) => void;
+  onReset: () => void;
+}
+
+const toText = (terms: string[]): string => terms.join('\n');
+
+const parseTerms = (text: string): string[] => Array.from(new Set(
+  text
+    .split(/[,\n]/)
+    .map(term => term.trim().replace(/\s+/g, ' '))
+    .filter(Boolean)
+));
+
+export const FillerLexiconEditor: React.FC<FillerLexiconEditorProps> = ({
+  lexicons,
+  onSave,
+  onReset,
+}) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [language, setLanguage] = useState(Object.keys(lexicons)[0] || 'en');
+  const [fillersText, setFillersText] = useState(toText(lexicons[language]?.fillers || []));
+  const [hedgesText, setHedgesText] = useState(toText(lexicons[language]?.hedges || []));
+
+  const handleLanguageChange = (code: string) => {
+    setLanguage(code);
+    setFillersText(toText(lexicons[code]?.fillers || []));
+    setHedgesText(toText(lexicons[code]?.hedges || []));
+  };
+
+  const handleSave = () => {
+    onSave({
+      ...lexicons,
+      [language]: { fillers: parseTerms(fillersText), hedges: parseTerms(hedgesText) },
+    });
+  };
+
+  const handleReset = () => {
+    if (window.confirm('Reset the filler and hedging word lists for all languages to the defaults?')) {
+      onReset();
+      setIsExpanded(false);
+    }
+  };
+
+  if (!isExpanded) {
+    return (
+      <button className="filler-lexicon-toggle" onClick={() => {
+        handleLanguageChange(language);
+        setIsExpanded(true);
+      }}>
+        ✏️ Edit word lists
+      </button>
+    );
+  }
+
+  return (
+    <div className="filler-lexicon-editor">
+      <div className="filler-lexicon-languages">
+        {Object.keys(lexicons).map(code => (
+          <button
+            key={code}
+            className={`filler-lexicon-language ${code === language ? 'active' : ''}`}
+            onClick={() => handleLanguageChange(code)}
+          >
+            {LANGUAGE_NAMES[code] || code}
+          </button>
+        ))}
+      </div>
+      <p className="filler-lexicon-hint">
+        One word or phrase per line, matched as whole words regardless of case.
+        Each phrase is checked against the list for its script (Latin → English, Cyrillic → Ukrainian).
+      </p>
+      <div className="filler-lexicon-fields">
+        <label className="filler-lexicon-field">
+          <span>Filler words</span>
+          <textarea value={fillersText} onChange={(e) => setFillersText(e.target.value)} rows={8} />
+        </label>
+        <label className="filler-lexicon-field">
+          <span>Hedging phrases</span>
+          <textarea value={hedgesText} onChange={(e) => setHedgesText(e.target.value)} rows={8} />
+        </label>
+      </div>
+      <div className="filler-lexicon-actions">
+        <button className="filler-lexicon-save" onClick={handleSave}>Save</button>
+        <button className="filler-lexicon-cancel" onClick={() => setIsExpanded(false)}>Close</button>
+        <button className="filler-lexicon-reset" onClick={handleReset}>Reset to defaults</button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,74 @@
+import React from 'react';
+import { FillerLexicons, Speaker, SpeakerFillerStats } from '../types';
+import { FillerLexiconEditor } from './FillerLexiconEditor';
+
+interface FillersSectionProps {
+  fillers: SpeakerFillerStats[];
+  speakers: Speaker[];
+  lexicons: FillerLexicons;
+  getSpeakerColor: (speaker: Speaker) => string;
+  onLexiconsChange: (lexicons: FillerLexicons) => void;
+  onLexiconsReset: () => void;
+}
+
+// Most frequent terms listed per speaker
+const TOP_TERMS = 4;
+
+export const FillersSection: React.FC<FillersSectionProps> = ({
+  fillers,
+  speakers,
+  lexicons,
+  getSpeakerColor,
+  onLexiconsChange,
+  onLexiconsReset,
+}) => {
+  const rows = speakers
+    .map(speaker => ({ speaker, stats: fillers.find(item => item.speakerId === speaker.id) }))
+    .filter(row => row.stats);
+
+  return (
+    <div className="analytics-section">
+      <h3 className="analytics-section-title">Filler words & hedging</h3>
+      <p className="analytics-section-description">
+        Counted in each speaker's phrases, per minute of their speaking time.
+        <span className="analytics-muted"> Matches are <mark className="phrase-filler">highlighted</mark> (fillers) and <mark className="phrase-hedge">underlined</mark> (hedges) in the phrase lists.</span>
+      </p>
+
+      <table className="analytics-table">
+        <thead>
+          <tr>
+            <th>Speaker</th>
+            <th>Fillers</th>
+            <th>Fillers / min</th>
+            <th>Hedges</th>
+            <th>Hedges / min</th>
+            <th>Most frequent</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(({ speaker, stats }) => stats && (
+            <tr key={speaker.id}>
+              <td>
+                <span className="analytics-speaker-dot" style={{ backgroundColor: getSpeakerColor(speaker) }}></span>
+                {speaker.label}
+              </td>
+              <td>{stats.fillerCount}</td>
+              <td>{stats.fillersPerMinute.toFixed(1)}</td>
+              <td>{stats.hedgeCount}</td>
+              <td>{stats.hedgesPerMinute.toFixed(1)}</td>
+              <td>
+                {stats.terms.length === 0 ? (
+                  <span className="analytics-muted">—</span>
+                ) : (
+                  stats.terms.slice(0, TOP_TERMS).map(item => `"${item.term}" ×${item.count}`).join(', ')
+                )}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <FillerLexiconEditor lexicons={lexicons} onSave={onLexiconsChange} onReset={onLexiconsReset} />
+    </div>
+  );
+};
@@ -0,0 +1,100 @@
+import React from 'react';
+import { GapStats, Speaker } from '../types';
+
+interface GapsSectionProps {
+  gaps: GapStats;
+  speakers: Speaker[];
+  totalDuration: number;
+  getSpeakerColor: (speaker: Speaker) => string;
+}
+
+const formatDuration = (ms: number): string => {
+  if (ms < 60_000) {
+    return `${(ms / 1000).toFixed(1)}s`;
+  }
+  const totalSeconds = Math.round(ms / 1000);
+  return `${Math.floor(totalSeconds / 60)}m ${(totalSeconds % 60).toString().padStart(2, '0')}s`;
+};
+
+export const GapsSection: React.FC<GapsSectionProps> = ({
+  gaps,
+  speakers,
+  totalDuration,
+  getSpeakerColor,
+}) => {
+  const { silence } = gaps;
+  const getPercentage = (ms: number) => (totalDuration > 0 ? (ms / totalDuration) * 100 : 0);
+
+  const silenceRows = [
+    { key: 'edges', label: 'Lead-in & tail', time: silence.leadIn + silence.tail, count: undefined },
+    { key: 'pauses', label: 'Pauses within a speaker', time: silence.intraSpeakerPauses, count: gaps.pauseCount },
+    { key: 'gaps', label: 'Gaps between speakers', time: silence.interSpeakerGaps, count: gaps.gapCount },
+  ];
+
+  return (
+    <div className="analytics-section">
+      <h3 className="analytics-section-title">Silence & response latency</h3>
+      <p className="analytics-section-description">
+        Silence: {formatDuration(silence.total)} ({getPercentage(silence.total).toFixed(1)}% of the meeting)
+      </p>
+
+      <table className="analytics-table">
+        <thead>
+          <tr>
+            <th>Silence</th>
+            <th>Time</th>
+            <th>Share of meeting</th>
+            <th>Count</th>
+          </tr>
+        </thead>
+        <tbody>
+          {silenceRows.map(row => (
+            <tr key={row.key}>
+              <td>{row.label}</td>
+              <td>{formatDuration(row.time)}</td>
+              <td>{getPercentage(row.time).toFixed(1)}%</td>
+              <td>{row.count ?? <span className="analytics-muted">—</span>}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {gaps.speakers.length > 0 && (
+        <>
+          <p className="analytics-section-description gaps-latency-description">
+            Response latency: how long each speaker waits after someone else stops
+            <span className="analytics-muted"> • starting before the other speaker finished counts as 0s</span>
+          </p>
+          <table className="analytics-table">
+            <thead>
+              <tr>
+                <th>Speaker</th>
+                <th>Responses</th>
+                <th>Median latency</th>
+                <th>Mean latency</th>
+              </tr>
+            </thead>
+            <tbody>
+              {gaps.speakers.map(stats => {
+                const speaker = speakers.find(item => (item.sourceLabel || item.label) === stats.speaker);
+                return (
+                  <tr key={stats.speaker}>
+                    <td>
+                      {speaker && (
+                        <span className="analytics-speaker-dot" style={{ backgroundColor: getSpeakerColor(speaker) }}></span>
+                      )}
+                      {speaker?.label || stats.speaker}
+                    </td>
+                    <td>{stats.responses}</td>
+                    <td>{formatDuration(stats.medianLatency)}</td>
+                    <td>{formatDuration(stats.meanLatency)}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </>
+      )}
+    </div>
+  );
+};
@@ -1,27 +1,116 @@
-import React, { useState } from 'react';
-import { HistoryItem } from '../types';
+import React, { useEffect, useRef, useState } from 'react';
+import { HistoryImportMode, HistoryItem, PercentageBasis, StatsOptions, TranscriptionOptions } from '../types';
+import { DEFAULT_STATS_OPTIONS } from '../services/SpeakerDiarizationService';
+import { AudioStorageService, StorageEstimate } from '../services/AudioStorageService';
+import {
+  buildImportItems,
+  createHistoryBundle,
+  HistoryImportError,
+  HistoryImportPlan,
+  parseHistoryBundle,
+  planHistoryImport,
+} from '../services/historyBundle';
+import { downloadFile } from '../services/download';
+import { ExportMenu } from './ExportMenu';
 import './History.css';
 
 interface HistoryProps {
   history: HistoryItem[];
   onLoadItem: (item: HistoryItem) => void;
   onRenameItem: (id: string, newName: string) => void;
+  onRecomputeItem?: (item: HistoryItem, options: StatsOptions) => Promise<void>;
   onDeleteItem: (id: string) => void;
   onClearHistory: () => void;
   activeItemId: string | null;
+  keepAudio?: boolean;
+  onKeepAudioChange?: (keepAudio: boolean) => void;
+  onDeleteItemAudio?: (id: string) => void;
+  onReprocessItem?: (item: HistoryItem) => void;
+  onImportItems?: (items: HistoryItem[]) => Promise<boolean>;
 }
 
+interface PendingImport {
+  fileName: string;
+  plan: HistoryImportPlan;
+  skipped: number;
+}
+
+const formatBytes = (bytes: number): string => {
+  if (bytes < 1024 * 1024) return `${Math.max(Math.round(bytes / 1024), 1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+};
+
+/**
+ * One-line summary of the options a transcript was produced with
+ */
+const formatTranscriptionOptions = (options: TranscriptionOptions): string => {
+  const parts: string[] = [];
+  if (options.speakersExpected) {
+    parts.push(`${options.speakersExpected} speakers expected`);
+  } else if (options.minSpeakers || options.maxSpeakers) {
+    parts.push(`${options.minSpeakers || 1}-${options.maxSpeakers || '?'} speakers`);
+  }
+  if (options.languageCode) parts.push(`language: ${options.languageCode}`);
+  if (options.speechModel) parts.push(`model: ${options.speechModel}`);
+  if (options.wordBoost?.length) {
+    parts.push(`boost (${options.boostParam || 'default'}): ${options.wordBoost.join(', ')}`);
+  }
+  return parts.join(' • ');
+};
+
+/**
+ * Parity score change since the previous meeting of the same type (history is newest first)
+ */
+const formatParityTrend = (history: HistoryItem[], index: number): string => {
+  const parity = history[index].parity;
+  if (!parity) return '';
+  const previous = history
+    .slice(index + 1)
+    .find(item => item.parity?.meetingType === parity.meetingType && item.parity.metric === parity.metric);
+  const change = previous?.parity ? parity.score - previous.parity.score : 0;
+  return change !== 0 ? ` (${change > 0 ? '▲' : '▼'}${Math.abs(change)})` : '';
+};
+
 export const History: React.FC<HistoryProps> = ({
   history,
   onLoadItem,
   onRenameItem,
+  onRecomputeItem,
   onDeleteItem,
   onClearHistory,
   activeItemId,
+  keepAudio = false,
+  onKeepAudioChange,
+  onDeleteItemAudio,
+  onReprocessItem,
+  onImportItems,
 }) => {
   const [editingId, setEditingId] = useState<string | null>(null);
   const [editName, setEditName] = useState('');
   const [isExpanded, setIsExpanded] = useState(false);
+  const [recomputeId, setRecomputeId] = useState<string | null>(null);
+  const [recomputeOptions, setRecomputeOptions] = useState<StatsOptions>(DEFAULT_STATS_OPTIONS);
+  const [recomputingId, setRecomputingId] = useState<string | null>(null);
+  const [storageEstimate, setStorageEstimate] = useState<StorageEstimate>({});
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [pendingImport, setPendingImport] = useState<PendingImport | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const selectedItems = history.filter(item => selectedIds.has(item.id));
+
+  const audioItems = history.filter(item => item.audioSize);
+  const totalAudioSize = audioItems.reduce((sum, item) => sum + (item.audioSize || 0), 0);
+
+  // Refresh the browser storage estimate whenever stored audio changes
+  useEffect(() => {
+    if (!isExpanded) return;
+    AudioStorageService.getStorageEstimate()
+      .then(setStorageEstimate)
+      .catch(error => console.warn('Could not get storage estimate:', error));
+  }, [isExpanded, totalAudioSize]);
 
   const handleStartEdit = (item: HistoryItem) => {
     setEditingId(item.id);
@@ -41,6 +130,77 @@ export const History: React.FC<HistoryProps> = ({
     setEditName('');
   };
 
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  /**
+   * Download the selected items, or all of them if nothing is selected
+   */
+  const handleExport = () => {
+    const items = selectedItems.length > 0 ? selectedItems : history;
+    const bundle = createHistoryBundle(items);
+    const date = new Date().toISOString().slice(0, 10);
+    downloadFile(JSON.stringify(bundle, null, 2), `talk-parity-history-${date}.json`, 'application/json');
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow picking the same file again
+    if (!file) return;
+
+    setImportError(null);
+    setPendingImport(null);
+    setIsExpanded(true);
+    try {
+      const { items, skipped } = parseHistoryBundle(await file.text());
+      setPendingImport({ fileName: file.name, plan: planHistoryImport(history, items), skipped });
+    } catch (error) {
+      setImportError(error instanceof HistoryImportError
+        ? error.message
+        : `Could not read ${file.name}`);
+    }
+  };
+
+  const handleConfirmImport = async (mode: HistoryImportMode) => {
+    if (!pendingImport || !onImportItems) return;
+    setIsImporting(true);
+    try {
+      if (await onImportItems(buildImportItems(pendingImport.plan, mode))) {
+        setPendingImport(null);
+      }
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleStartRecompute = (item: HistoryItem) => {
+    setRecomputeId(item.id);
+    setRecomputeOptions(item.statsOptions || DEFAULT_STATS_OPTIONS);
+  };
+
+  const handleRecompute = async (item: HistoryItem) => {
+    if (!onRecomputeItem) return;
+    setRecomputingId(item.id);
+    try {
+      await onRecomputeItem(item, recomputeOptions);
+      setRecomputeId(null);
+    } finally {
+      setRecomputingId(null);
+    }
+  };
+
+  // On-device results only exist in memory while processing, so there is nothing to re-fetch
+  const canRecompute = (item: HistoryItem) => !!onRecomputeItem && item.provider?.id !== 'local';
+
   const formatDate = (timestamp: number) => {
     const date = new Date(timestamp);
     const now = new Date();
@@ -64,7 +224,8 @@ export const History: React.FC<HistoryProps> = ({
     return `${minutes}:${seconds.toString().padStart(2, '0')}`;
   };
 
-  if (history.length === 0) {
+  // Without history there is nothing to show, unless a backup can be imported
+  if (history.length === 0 && !onImportItems) {
     return null;
   }
 
@@ -79,6 +240,33 @@ export const History: React.FC<HistoryProps> = ({
           <h2 className="history-title">History ({history.length})</h2>
           <span className="history-chevron">{isExpanded ? '▼' : '▶'}</span>
         </button>
+        {isExpanded && history.length > 0 && (
+          <button
+            className="history-header-btn"
+            onClick={handleExport}
+            title="Download meetings as a JSON file (stored audio is not included)"
+          >
+            ⬇️ {selectedItems.length > 0 ? `Export selected (${selectedItems.length})` : 'Export all'}
+          </button>
+        )}
+        {isExpanded && onImportItems && (
+          <>
+            <input
+              ref={importInputRef}
+              type="file"
+              accept="application/json,.json"
+              onChange={handleImportFile}
+              style={{ display: 'none' }}
+            />
+            <button
+              className="history-header-btn"
+              onClick={() => importInputRef.current?.click()}
+              title="Add meetings from an exported JSON file"
+            >
+              ⬆️ Import
+            </button>
+          </>
+        )}
         {isExpanded && history.length > 0 && (
           <button
             className="clear-history-btn"
@@ -93,9 +281,83 @@ export const History: React.FC<HistoryProps> = ({
         )}
       </div>
 
+      {isExpanded && importError && (
+        <div className="history-import history-import-error">
+          <span>Import failed: {importError}. Your history was not changed.</span>
+          <button className="history-item-btn" onClick={() => setImportError(null)}>Dismiss</button>
+        </div>
+      )}
+
+      {isExpanded && pendingImport && (
+        <div className="history-import">
+          <span>
+            <strong>{pendingImport.fileName}</strong>:{' '}
+            {pendingImport.plan.newItems.length} new meeting{pendingImport.plan.newItems.length !== 1 ? 's' : ''}
+            {pendingImport.plan.duplicates.length > 0 && (
+              <>, {pendingImport.plan.duplicates.length} already in history</>
+            )}
+            {pendingImport.skipped > 0 && (
+              <span className="history-import-skipped"> ({pendingImport.skipped} unreadable, skipped)</span>
+            )}
+          </span>
+          <div className="history-item-actions">
+            {pendingImport.plan.duplicates.length > 0 ? (
+              <>
+                <button
+                  className="history-item-btn history-load-btn"
+                  onClick={() => handleConfirmImport('merge')}
+                  disabled={isImporting}
+                  title="Keep meetings already in history, only fill in what they are missing"
+                >
+                  Merge
+                </button>
+                <button
+                  className="history-item-btn"
+                  onClick={() => handleConfirmImport('replace')}
+                  disabled={isImporting}
+                  title="Overwrite meetings already in history with the imported versions"
+                >
+                  Replace
+                </button>
+              </>
+            ) : (
+              <button
+                className="history-item-btn history-load-btn"
+                onClick={() => handleConfirmImport('merge')}
+                disabled={isImporting || pendingImport.plan.newItems.length === 0}
+              >
+                Import
+              </button>
+            )}
+            <button className="history-item-btn" onClick={() => setPendingImport(null)} disabled={isImporting}>
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {isExpanded && onKeepAudioChange && (
+        <div className="history-audio-bar">
+          <label className="history-audio-toggle">
+            <input
+              type="checkbox"
+              checked={keepAudio}
+              onChange={(e) => onKeepAudioChange(e.target.checked)}
+            />
+            Keep meeting audio in this browser
+          </label>
+          <span className="history-audio-usage">
+            Audio: {audioItems.length} meeting{audioItems.length !== 1 ? 's' : ''}, {formatBytes(totalAudioSize)}
+            {storageEstimate.usage !== undefined && storageEstimate.quota !== undefined && (
+              <> • browser storage: {formatBytes(storageEstimate.usage)} of {formatBytes(storageEstimate.quota)} used</>
+            )}
+          </span>
+        </div>
+      )}
+
       {isExpanded && (
         <div className="history-list">
-          {history.map((item) => (
+          {history.map((item, index) => (
             <div key={item.id} className={`history-item ${activeItemId === item.id ? 'history-item-active' : ''}`}>
               <div className="history-item-main">
                 {editingId === item.id ? (
@@ -126,6 +388,13 @@ export const History: React.FC<HistoryProps> = ({
                   </div>
                 ) : (
                   <>
+                    <input
+                      type="checkbox"
+                      className="history-item-select"
+                      checked={selectedIds.has(item.id)}
+                      onChange={() => toggleSelected(item.id)}
+                      title="Select for export"
+                    />
                     <div className="history-item-info">
                       <div className="history-item-name">{item.name}</div>
                       <div className="history-item-meta">
@@ -136,10 +405,51 @@ export const History: React.FC<HistoryProps> = ({
                         <span className="history-item-speakers">
                           {item.speakers.length} speaker{item.speakers.length !== 1 ? 's' : ''}
                         </span>
+                        {item.provider && (
+                          <>
+                            <span className="history-item-separator">•</span>
+                            <span className="history-item-provider">{item.provider.name}</span>
+                          </>
+                        )}
+                        {item.parity && (
+                          <>
+                            <span className="history-item-separator">•</span>
+                            <span
+                              className={`history-item-parity history-item-parity-${item.parity.verdict}`}
+                              title={`Talk parity (${item.parity.metric}, ${item.parity.meetingType}), target ≥ ${item.parity.target}`}
+                            >
+                              parity {item.parity.score}{formatParityTrend(history, index)}
+                            </span>
+                          </>
+                        )}
+                        {!!item.audioSize && (
+                          <>
+                            <span className="history-item-separator">•</span>
+                            <span className="history-item-audio" title="Audio stored in this browser">
+                              🎧 {formatBytes(item.audioSize)}
+                            </span>
+                          </>
+                        )}
+                        {item.detailTrimmed && (
+                          <>
+                            <span className="history-item-separator">•</span>
+                            <span
+                              className="history-item-trimmed"
+                              title="Word-level data or segments were not stored to stay within the storage budget"
+                            >
+                              details trimmed
+                            </span>
+                          </>
+                        )}
                       </div>
                       <div className="history-item-transcript-id">
                         ID: {item.transcriptId}
                       </div>
+                      {item.transcriptionOptions && formatTranscriptionOptions(item.transcriptionOptions) && (
+                        <div className="history-item-options">
+                          Options: {formatTranscriptionOptions(item.transcriptionOptions)}
+                        </div>
+                      )}
                     </div>
                     <div className="history-item-actions">
                       <button
@@ -149,6 +459,49 @@ export const History: React.FC<HistoryProps> = ({
                       >
                         📊 Show stat
                       </button>
+                      <ExportMenu
+                        report={{
+                          title: item.name,
+                          date: item.timestamp,
+                          speakers: item.speakers,
+                          totalDuration: item.duration,
+                          analytics: item.analytics,
+                          parity: item.parity,
+                        }}
+                        segments={item.segments}
+                        buttonClassName="history-item-btn"
+                      />
+                      {canRecompute(item) && (
+                        <button
+                          className="history-item-btn history-recompute-btn"
+                          onClick={() => recomputeId === item.id ? setRecomputeId(null) : handleStartRecompute(item)}
+                          title="Re-fetch the transcript and recompute statistics"
+                        >
+                          🔄 Re-fetch & recompute
+                        </button>
+                      )}
+                      {!!item.audioSize && onReprocessItem && (
+                        <button
+                          className="history-item-btn history-recompute-btn"
+                          onClick={() => onReprocessItem(item)}
+                          title="Run the stored audio through the current provider and options again"
+                        >
+                          🔁 Re-process audio
+                        </button>
+                      )}
+                      {!!item.audioSize && onDeleteItemAudio && (
+                        <button
+                          className="history-item-btn history-delete-audio-btn"
+                          onClick={() => {
+                            if (window.confirm(`Delete the audio of "${item.name}"? Its statistics are kept.`)) {
+                              onDeleteItemAudio(item.id);
+                            }
+                          }}
+                          title="Delete audio, keep statistics"
+                        >
+                          🔇
+                        </button>
+                      )}
                       <button
                         className="history-item-btn history-rename-btn"
                         onClick={() => handleStartEdit(item)}
@@ -171,6 +524,36 @@ export const History: React.FC<HistoryProps> = ({
                   </>
                 )}
               </div>
+              {recomputeId === item.id && (
+                <div className="history-recompute">
+                  <label className="history-recompute-field">
+                    Min phrase length
+                    <input
+                      type="number"
+                      min={0}
+                      value={recomputeOptions.minPhraseLength}
+                      onChange={(e) => setRecomputeOptions(prev => ({ ...prev, minPhraseLength: Math.max(Number(e.target.value) || 0, 0) }))}
+                    />
+                  </label>
+                  <label className="history-recompute-field">
+                    Percentages of
+                    <select
+                      value={recomputeOptions.percentageBasis}
+                      onChange={(e) => setRecomputeOptions(prev => ({ ...prev, percentageBasis: e.target.value as PercentageBasis }))}
+                    >
+                      <option value="audio">Total duration (incl. silence)</option>
+                      <option value="speech">Speaking time only</option>
+                    </select>
+                  </label>
+                  <button
+                    className="history-item-btn history-load-btn"
+                    onClick={() => handleRecompute(item)}
+                    disabled={recomputingId === item.id}
+                  >
+                    {recomputingId === item.id ? 'Re-fetching...' : 'Recompute'}
+                  </button>
+                </div>
+              )}
             </div>
           ))}
         </div>
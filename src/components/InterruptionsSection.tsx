@@ -0,0 +1,77 @@
+import React from 'react';
+import { OverlapStats, Speaker } from '../types';
+
+interface InterruptionsSectionProps {
+  overlap: OverlapStats;
+  speakers: Speaker[];
+  totalDuration: number;
+  getSpeakerColor: (speaker: Speaker) => string;
+}
+
+const formatDuration = (ms: number): string => {
+  if (ms < 60_000) {
+    return `${(ms / 1000).toFixed(1)}s`;
+  }
+  const totalSeconds = Math.round(ms / 1000);
+  return `${Math.floor(totalSeconds / 60)}m ${(totalSeconds % 60).toString().padStart(2, '0')}s`;
+};
+
+export const InterruptionsSection: React.FC<InterruptionsSectionProps> = ({
+  overlap,
+  speakers,
+  totalDuration,
+  getSpeakerColor,
+}) => {
+  const findSpeaker = (label: string) =>
+    speakers.find(speaker => (speaker.sourceLabel || speaker.label) === label);
+
+  const renderSpeaker = (label: string) => {
+    const speaker = findSpeaker(label);
+    return (
+      <>
+        {speaker && (
+          <span className="analytics-speaker-dot" style={{ backgroundColor: getSpeakerColor(speaker) }}></span>
+        )}
+        {speaker?.label || label}
+      </>
+    );
+  };
+
+  const overlapPercentage = totalDuration > 0 ? (overlap.totalOverlapTime / totalDuration) * 100 : 0;
+
+  return (
+    <div className="analytics-section">
+      <h3 className="analytics-section-title">Interruptions & overlapping speech</h3>
+      <p className="analytics-section-description">
+        Overlapping speech: {formatDuration(overlap.totalOverlapTime)} ({overlapPercentage.toFixed(1)}% of the meeting),
+        {' '}{overlap.overlapCount} interruption{overlap.overlapCount !== 1 ? 's' : ''}
+        <span className="analytics-muted"> • detected from {overlap.source === 'words' ? 'word timings' : 'segments'}</span>
+      </p>
+
+      {overlap.interruptions.length === 0 ? (
+        <p className="analytics-muted">Nobody started talking before the previous speaker finished.</p>
+      ) : (
+        <table className="analytics-table">
+          <thead>
+            <tr>
+              <th>Who interrupted</th>
+              <th>Whom</th>
+              <th>Times</th>
+              <th>Overlapped time</th>
+            </tr>
+          </thead>
+          <tbody>
+            {overlap.interruptions.map(item => (
+              <tr key={`${item.interrupter}-${item.interrupted}`}>
+                <td>{renderSpeaker(item.interrupter)}</td>
+                <td>{renderSpeaker(item.interrupted)}</td>
+                <td>{item.count}</td>
+                <td>{formatDuration(item.overlapTime)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
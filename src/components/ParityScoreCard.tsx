@@ -0,0 +1,91 @@
+import React from 'react';
+import { MeetingTypeId, ParityMetric, ParityScore, ParitySettings, ParityVerdict } from '../types';
+import { MEETING_TYPES, PARITY_METRICS } from '../services/analytics';
+import './ParityScoreCard.css';
+
+interface ParityScoreCardProps {
+  parity: ParityScore;
+  targets: ParitySettings['targets'];
+  onChange?: (meetingType: MeetingTypeId, metric: ParityMetric, target: number) => void;
+}
+
+const VERDICT_LABELS: Record<ParityVerdict, string> = {
+  balanced: '✅ Balanced',
+  uneven: '⚠️ Somewhat uneven',
+  dominated: '🔴 Dominated',
+};
+
+const formatMetricValue = (parity: ParityScore): string => {
+  if (parity.value === null) return '∞';
+  return parity.metric === 'ratio' ? `${parity.value.toFixed(1)}×` : parity.value.toFixed(2);
+};
+
+export const ParityScoreCard: React.FC<ParityScoreCardProps> = ({
+  parity,
+  targets,
+  onChange,
+}) => {
+  const metric = PARITY_METRICS.find(item => item.id === parity.metric);
+
+  const handleTargetChange = (value: string) => {
+    const target = parseInt(value, 10);
+    if (onChange && target >= 0 && target <= 100) {
+      onChange(parity.meetingType, parity.metric, target);
+    }
+  };
+
+  return (
+    <div className={`parity-card parity-card-${parity.verdict}`}>
+      <div className="parity-card-score">
+        <span className="parity-card-value">{parity.score}</span>
+        <span className="parity-card-scale">/ 100</span>
+      </div>
+      <div className="parity-card-details">
+        <div className="parity-card-heading">
+          <span className="parity-card-title">Talk parity</span>
+          <span className={`parity-badge parity-badge-${parity.verdict}`}>{VERDICT_LABELS[parity.verdict]}</span>
+        </div>
+        <div className="parity-card-description" title={metric?.description}>
+          {metric?.name}: {formatMetricValue(parity)} • target ≥ {parity.target}
+        </div>
+        {onChange && (
+          <div className="parity-card-controls">
+            <select
+              value={parity.meetingType}
+              onChange={(e) => {
+                const meetingType = e.target.value as MeetingTypeId;
+                onChange(meetingType, parity.metric, targets[meetingType] ?? parity.target);
+              }}
+              title="Meeting type"
+            >
+              {MEETING_TYPES.map(type => (
+                <option key={type.id} value={type.id}>{type.name}</option>
+              ))}
+            </select>
+            <select
+              value={parity.metric}
+              onChange={(e) => onChange(parity.meetingType, e.target.value as ParityMetric, parity.target)}
+              title="Metric"
+            >
+              {PARITY_METRICS.map(item => (
+                <option key={item.id} value={item.id}>{item.name}</option>
+              ))}
+            </select>
+            <label className="parity-card-target">
+              Target
+              <input
+                key={`${parity.meetingType}-${parity.target}`}
+                type="number"
+                min={0}
+                max={100}
+                defaultValue={parity.target}
+                onBlur={(e) => handleTargetChange(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleTargetChange(e.currentTarget.value)}
+              />
+            </label>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,65 @@
+import React from 'react';
+import { PendingJob } from '../types';
+import './PendingJobs.css';
+
+interface PendingJobsProps {
+  jobs: PendingJob[];
+  onResume: (job: PendingJob) => void;
+  onDiscard: (job: PendingJob) => void;
+}
+
+export const PendingJobs: React.FC<PendingJobsProps> = ({ jobs, onResume, onDiscard }) => {
+  const formatStartTime = (timestamp: number) => {
+    const date = new Date(timestamp);
+    return `${date.toLocaleDateString()} ${date.toLocaleTimeString()}`;
+  };
+
+  if (jobs.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="pending-jobs">
+      <div className="pending-jobs-header">
+        <span className="pending-jobs-icon">⏳</span>
+        <h2 className="pending-jobs-title">Unfinished transcriptions ({jobs.length})</h2>
+      </div>
+      <p className="pending-jobs-description">
+        These jobs were still running when the page was closed. Resume to fetch the results without uploading again.
+      </p>
+      <div className="pending-jobs-list">
+        {jobs.map((job) => (
+          <div key={job.transcriptId} className="pending-job">
+            <div className="pending-job-info">
+              <div className="pending-job-name">{job.sourceName}</div>
+              <div className="pending-job-meta">
+                Started {formatStartTime(job.startTime)} • {job.provider.name}
+              </div>
+              <div className="pending-job-id">ID: {job.transcriptId}</div>
+            </div>
+            <div className="pending-job-actions">
+              <button
+                className="pending-job-btn pending-job-resume"
+                onClick={() => onResume(job)}
+                title="Resume polling for this transcription"
+              >
+                ▶️ Resume
+              </button>
+              <button
+                className="pending-job-btn pending-job-discard"
+                onClick={() => {
+                  if (window.confirm(`Discard "${job.sourceName}"? The result will not be fetched.`)) {
+                    onDiscard(job);
+                  }
+                }}
+                title="Discard"
+              >
+                🗑️
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
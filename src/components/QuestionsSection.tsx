@@ -0,0 +1,67 @@
+import React from 'react';
+import { QuestionStats, Speaker } from '../types';
+
+interface QuestionsSectionProps {
+  questions: QuestionStats;
+  speakers: Speaker[];
+  getSpeakerColor: (speaker: Speaker) => string;
+}
+
+export const QuestionsSection: React.FC<QuestionsSectionProps> = ({
+  questions,
+  speakers,
+  getSpeakerColor,
+}) => {
+  // Show rows in the same order as the speakers list
+  const rows = speakers
+    .map(speaker => ({
+      speaker,
+      stats: questions.speakers.find(item => item.speaker === (speaker.sourceLabel || speaker.label)),
+    }))
+    .filter(row => row.stats);
+
+  const getShare = (asked: number) =>
+    questions.totalQuestions > 0 ? (asked / questions.totalQuestions) * 100 : 0;
+
+  return (
+    <div className="analytics-section">
+      <h3 className="analytics-section-title">Questions</h3>
+      <p className="analytics-section-description">
+        {questions.totalQuestions} question{questions.totalQuestions !== 1 ? 's' : ''}, {questions.answeredCount} answered
+        <span className="analytics-muted"> • a question counts as answered when another speaker takes the next turn shortly after it</span>
+      </p>
+
+      {questions.totalQuestions === 0 ? (
+        <p className="analytics-muted">No questions were detected in the transcript.</p>
+      ) : (
+        <table className="analytics-table">
+          <thead>
+            <tr>
+              <th>Speaker</th>
+              <th>Asked</th>
+              <th>Share of questions</th>
+              <th>Got an answer</th>
+              <th>Unanswered</th>
+              <th>Answered others</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(({ speaker, stats }) => stats && (
+              <tr key={speaker.id}>
+                <td>
+                  <span className="analytics-speaker-dot" style={{ backgroundColor: getSpeakerColor(speaker) }}></span>
+                  {speaker.label}
+                </td>
+                <td>{stats.asked}</td>
+                <td>{getShare(stats.asked).toFixed(0)}%</td>
+                <td>{stats.answered}</td>
+                <td>{stats.unanswered}</td>
+                <td>{stats.answersGiven}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
@@ -11,6 +11,9 @@ interface RecordingControlsProps {
   onStopRecording: () => void;
   onReset: () => void;
   onFileUpload?: (file: File) => void;
+  onCancelProcessing?: () => void;
+  deleteRemoteOnCancel?: boolean;
+  onDeleteRemoteOnCancelChange?: (value: boolean) => void;
 }
 
 export const RecordingControls: React.FC<RecordingControlsProps> = ({
@@ -23,6 +26,9 @@ export const RecordingControls: React.FC<RecordingControlsProps> = ({
   onStopRecording,
   onReset,
   onFileUpload,
+  onCancelProcessing,
+  deleteRemoteOnCancel,
+  onDeleteRemoteOnCancelChange,
 }) => {
   const fileInputRef = React.useRef<HTMLInputElement>(null);
 
@@ -143,6 +149,27 @@ export const RecordingControls: React.FC<RecordingControlsProps> = ({
           </div>
         )}
 
+        {isProcessing && onCancelProcessing && (
+          <div className="processing-cancel">
+            <button
+              className="btn btn-secondary"
+              onClick={onCancelProcessing}
+            >
+              ✖️ Cancel
+            </button>
+            {onDeleteRemoteOnCancelChange && (
+              <label className="processing-cancel-option">
+                <input
+                  type="checkbox"
+                  checked={!!deleteRemoteOnCancel}
+                  onChange={(e) => onDeleteRemoteOnCancelChange(e.target.checked)}
+                />
+                Also delete remote transcript
+              </label>
+            )}
+          </div>
+        )}
+
         {!isRecording && !isProcessing && duration > 0 && (
           <button
             className="btn btn-secondary"
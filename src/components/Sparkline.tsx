@@ -0,0 +1,67 @@
+import React from 'react';
+
+interface SparklineProps {
+  values: (number | null)[]; // null leaves a gap in the line
+  color: string;
+  width?: number;
+  height?: number;
+  title?: string;
+}
+
+/**
+ * Tiny inline line chart; each run of non-null values is drawn as its own line
+ */
+export const Sparkline: React.FC<SparklineProps> = ({
+  values,
+  color,
+  width = 120,
+  height = 28,
+  title,
+}) => {
+  const present = values.filter((value): value is number => value !== null);
+  if (present.length === 0) {
+    return null;
+  }
+
+  const max = Math.max(...present);
+  const min = Math.min(...present);
+  const range = max - min || 1;
+  const step = values.length > 1 ? width / (values.length - 1) : 0;
+  const padding = 2;
+
+  const toPoint = (value: number, index: number) => {
+    const x = values.length > 1 ? index * step : width / 2;
+    const y = padding + (1 - (value - min) / range) * (height - padding * 2);
+    return { x, y };
+  };
+
+  const lines: { x: number; y: number }[][] = [];
+  let current: { x: number; y: number }[] = [];
+  values.forEach((value, index) => {
+    if (value === null) {
+      if (current.length > 0) lines.push(current);
+      current = [];
+    } else {
+      current.push(toPoint(value, index));
+    }
+  });
+  if (current.length > 0) lines.push(current);
+
+  return (
+    <svg className="sparkline" width={width} height={height} viewBox={`0 0 ${width} ${height}`} role="img">
+      {title && <title>{title}</title>}
+      {lines.map((points, index) => points.length === 1 ? (
+        <circle key={index} cx={points[0].x} cy={points[0].y} r={1.5} fill={color} />
+      ) : (
+        <polyline
+          key={index}
+          points={points.map(point => `${point.x},${point.y}`).join(' ')}
+          fill="none"
+          stroke={color}
+          strokeWidth={1.5}
+          strokeLinejoin="round"
+        />
+      ))}
+    </svg>
+  );
+};
@@ -1,37 +1,151 @@
-import React, { useState } from 'react';
-import { Speaker } from '../types';
+import React, { useMemo, useRef, useState } from 'react';
+import {
+  FillerLexicons,
+  DiarizationSegment,
+  MeetingAnalytics,
+  MeetingTypeId,
+  ParityMetric,
+  ParityScore,
+  ParitySettings,
+  PhraseTiming,
+  Speaker,
+} from '../types';
+import { clearFillerLexicons, getFillerLexicons, saveFillerLexicons } from '../config';
+import { analyzeFillers, splitByLexicon, summarizeSpeakingTime } from '../services/analytics';
+import { AudioPlayer } from './AudioPlayer';
+import { ExportMenu } from './ExportMenu';
+import { FillersSection } from './FillersSection';
+import { GapsSection } from './GapsSection';
+import { InterruptionsSection } from './InterruptionsSection';
+import { ParityScoreCard } from './ParityScoreCard';
+import { SpeakerTimeline } from './SpeakerTimeline';
+import { getSpeakerColor, SILENCE_COLOR } from './speakerColors';
+import { QuestionsSection } from './QuestionsSection';
+import { SpeakingRateSection } from './SpeakingRateSection';
+import { TurnTakingSection } from './TurnTakingSection';
 import './SpeakerStats.css';
 
+// Value of the "new speaker" option when reassigning a phrase
+const NEW_SPEAKER_OPTION = '__new__';
+
 interface SpeakerStatsProps {
   speakers: Speaker[];
   totalDuration: number;
+  segments?: DiarizationSegment[];
+  audioUrl?: string | null; // Audio of the current session, enables playback and click-to-seek
+  reportTitle?: string; // Meeting name used in exported reports
+  reportDate?: number;
+  analytics?: MeetingAnalytics;
+  parity?: ParityScore;
+  parityTargets?: ParitySettings['targets'];
   onSpeakerRename?: (speakerId: string, newName: string) => void;
+  onParityChange?: (meetingType: MeetingTypeId, metric: ParityMetric, target: number) => void;
+  onMergeSpeakers?: (speakerIds: string[]) => void;
+  onReassignSegment?: (segment: DiarizationSegment, toSpeakerLabel: string | null) => void; // null = new speaker
+  onRestoreOriginal?: () => void; // Go back to the diarization output before any edits
+  onUndoSpeakerEdit?: () => void;
+  undoDescription?: string; // What undo would revert
 }
 
-// Define consistent colors for each speaker
-const SPEAKER_COLORS = [
-  '#2196F3', // Blue
-  '#4CAF50', // Green
-  '#FF9800', // Orange
-  '#E91E63', // Pink
-  '#9C27B0', // Purple
-  '#00BCD4', // Cyan
-  '#FFC107', // Amber
-  '#F44336', // Red
-];
-
-const getSpeakerColor = (index: number): string => {
-  return SPEAKER_COLORS[index % SPEAKER_COLORS.length];
-};
-
 export const SpeakerStats: React.FC<SpeakerStatsProps> = ({
   speakers,
   totalDuration,
+  segments = [],
+  audioUrl,
+  reportTitle = 'Meeting',
+  reportDate,
+  analytics,
+  parity,
+  parityTargets = {},
   onSpeakerRename,
+  onParityChange,
+  onMergeSpeakers,
+  onReassignSegment,
+  onRestoreOriginal,
+  onUndoSpeakerEdit,
+  undoDescription,
 }) => {
   const [editingId, setEditingId] = useState<string | null>(null);
   const [editValue, setEditValue] = useState<string>('');
   const [expandedPhrases, setExpandedPhrases] = useState<Set<string>>(new Set());
+  const [fillerLexicons, setFillerLexicons] = useState<FillerLexicons>(getFillerLexicons);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [isMerging, setIsMerging] = useState(false);
+  const [mergeSelection, setMergeSelection] = useState<Set<string>>(new Set());
+  const [isEditingPhrases, setIsEditingPhrases] = useState(false);
+  const [selectedSegment, setSelectedSegment] = useState<DiarizationSegment | null>(null);
+  const audioRef = useRef<HTMLAudioElement>(null);
+
+  const fillers = useMemo(
+    () => analyzeFillers(speakers, segments, fillerLexicons),
+    [speakers, segments, fillerLexicons]
+  );
+  const hasPhrases = speakers.some(speaker => speaker.allPhrases && speaker.allPhrases.length > 0);
+
+  // Merging recomputes stats from the segments, so results without them can't be merged
+  const canMerge = !!onMergeSpeakers && speakers.length > 1 && segments.length > 0;
+
+  const toggleMergeSelection = (speakerId: string) => {
+    setMergeSelection(prev => {
+      const next = new Set(prev);
+      if (next.has(speakerId)) {
+        next.delete(speakerId);
+      } else {
+        next.add(speakerId);
+      }
+      return next;
+    });
+  };
+
+  const handleCancelMerge = () => {
+    setIsMerging(false);
+    setMergeSelection(new Set());
+  };
+
+  const handleMerge = () => {
+    onMergeSpeakers?.(Array.from(mergeSelection));
+    handleCancelMerge();
+  };
+
+  const canEditPhrases = !!onReassignSegment && segments.length > 0;
+
+  const handleStopEditingPhrases = () => {
+    setIsEditingPhrases(false);
+    setSelectedSegment(null);
+  };
+
+  const handleReassign = (segment: DiarizationSegment, value: string) => {
+    onReassignSegment?.(segment, value === NEW_SPEAKER_OPTION ? null : value);
+    setSelectedSegment(null);
+  };
+
+  const renderReassignSelect = (segment: DiarizationSegment) => (
+    <select
+      className="phrase-reassign-select"
+      value=""
+      onClick={(e) => e.stopPropagation()}
+      onChange={(e) => handleReassign(segment, e.target.value)}
+      title="Attribute this phrase to another speaker"
+    >
+      <option value="" disabled>Move to…</option>
+      {speakers
+        .filter(speaker => (speaker.sourceLabel || speaker.label) !== segment.speaker)
+        .map(speaker => (
+          <option key={speaker.id} value={speaker.sourceLabel || speaker.label}>{speaker.label}</option>
+        ))}
+      <option value={NEW_SPEAKER_OPTION}>+ New speaker</option>
+    </select>
+  );
+
+  const handleLexiconsChange = (lexicons: FillerLexicons) => {
+    saveFillerLexicons(lexicons);
+    setFillerLexicons(lexicons);
+  };
+
+  const handleLexiconsReset = () => {
+    clearFillerLexicons();
+    setFillerLexicons(getFillerLexicons());
+  };
 
   const formatTime = (ms: number): string => {
     const totalSeconds = Math.floor(ms / 1000);
@@ -40,10 +154,51 @@ export const SpeakerStats: React.FC<SpeakerStatsProps> = ({
     return `${minutes}m ${seconds}s`;
   };
 
-  // Calculate total speaking time and silence
-  const totalSpeakingTime = speakers.reduce((sum, speaker) => sum + speaker.speakingTime, 0);
-  const silenceTime = totalDuration - totalSpeakingTime;
-  const silencePercentage = totalDuration > 0 ? (silenceTime / totalDuration) * 100 : 0;
+  // Calculate total speaking time and silence (shared with the exported reports, so numbers match)
+  const silence = analytics?.gaps?.silence;
+  const summary = summarizeSpeakingTime(speakers, totalDuration, silence);
+  const { totalSpeakingTime, silenceTime, silencePercentage } = summary;
+
+  const getColorForSpeaker = (speaker: Speaker): string => {
+    return getSpeakerColor(Math.max(speakers.indexOf(speaker), 0));
+  };
+
+  const findSpeakerForSegment = (segment: DiarizationSegment) =>
+    speakers.find(speaker => (speaker.sourceLabel || speaker.label) === segment.speaker);
+
+  // The segment under the playhead (the latest one to start, if several overlap)
+  const activeSegment = audioUrl && currentTime > 0
+    ? segments.reduce<DiarizationSegment | undefined>((active, segment) =>
+        segment.start <= currentTime && currentTime < segment.end && (!active || segment.start >= active.start)
+          ? segment
+          : active,
+      undefined)
+    : undefined;
+  const activeSpeaker = activeSegment && findSpeakerForSegment(activeSegment);
+
+  // Older results have no phraseTimings; find the phrase's segment by its text instead
+  const getPhraseTiming = (speaker: Speaker, index: number): PhraseTiming | undefined =>
+    speaker.phraseTimings?.[index] || segments.find(segment =>
+      segment.speaker === (speaker.sourceLabel || speaker.label) && segment.text?.trim() === speaker.allPhrases[index]
+    );
+
+  const handleSeek = (seconds: number) => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    audio.currentTime = seconds;
+    setCurrentTime(seconds);
+    audio.play().catch(error => console.warn('Playback failed:', error));
+  };
+
+  const renderWordStats = (speaker: Speaker) => {
+    const stats = analytics?.speakingRate?.speakers.find(item => item.speaker === (speaker.sourceLabel || speaker.label));
+    if (!stats) return null;
+    return (
+      <span className="speaker-word-stats">
+        {' '}• {stats.wordCount} words ({stats.wordShare.toFixed(0)}%) • {Math.round(stats.wordsPerMinute)} WPM
+      </span>
+    );
+  };
 
   const handleEditClick = (speaker: Speaker) => {
     if (onSpeakerRename) {
@@ -76,6 +231,40 @@ export const SpeakerStats: React.FC<SpeakerStatsProps> = ({
   return (
     <div className="speaker-stats">
       <h2 className="stats-title">Speaking Time Distribution</h2>
+
+      <div className="stats-toolbar">
+        {onUndoSpeakerEdit && (
+          <button
+            className="stats-toolbar-btn"
+            onClick={onUndoSpeakerEdit}
+            title={undoDescription ? `Undo: ${undoDescription}` : 'Undo the last speaker change'}
+          >
+            ↩️ Undo
+          </button>
+        )}
+        {canEditPhrases && (
+          <button
+            className="stats-toolbar-btn"
+            onClick={() => isEditingPhrases ? handleStopEditingPhrases() : setIsEditingPhrases(true)}
+            title="Attribute phrases to the right speaker"
+          >
+            {isEditingPhrases ? '✓ Done editing' : '✂️ Reassign phrases'}
+          </button>
+        )}
+        {canMerge && !isMerging && (
+          <button
+            className="stats-toolbar-btn"
+            onClick={() => setIsMerging(true)}
+            title="Combine speakers that are really the same person"
+          >
+            🔗 Merge speakers
+          </button>
+        )}
+        <ExportMenu
+          report={{ title: reportTitle, date: reportDate, speakers, totalDuration, analytics, parity }}
+          segments={segments}
+        />
+      </div>
       
       <div className="stats-summary">
         <div className="summary-item">
@@ -98,6 +287,10 @@ export const SpeakerStats: React.FC<SpeakerStatsProps> = ({
         )}
       </div>
 
+      {parity && (
+        <ParityScoreCard parity={parity} targets={parityTargets} onChange={onParityChange} />
+      )}
+
       {/* Percentage Distribution Blocks */}
       <div className="percentage-blocks-container">
         {/* With Silence */}
@@ -125,7 +318,7 @@ export const SpeakerStats: React.FC<SpeakerStatsProps> = ({
                 className="percentage-segment percentage-segment-silence"
                 style={{ 
                   width: `${silencePercentage}%`,
-                  backgroundColor: '#9E9E9E'
+                  backgroundColor: SILENCE_COLOR
                 }}
                 title={`Silence: ${silencePercentage.toFixed(1)}%`}
               >
@@ -142,9 +335,7 @@ export const SpeakerStats: React.FC<SpeakerStatsProps> = ({
           <h3 className="percentage-block-title">Without Silence</h3>
           <div className="percentage-visualization">
             {speakers.map((speaker, index) => {
-              const percentageWithoutSilence = totalSpeakingTime > 0 
-                ? (speaker.speakingTime / totalSpeakingTime) * 100 
-                : 0;
+              const { percentageWithoutSilence } = summary.speakers[index];
               return (
                 <div
                   key={speaker.id}
@@ -166,10 +357,97 @@ export const SpeakerStats: React.FC<SpeakerStatsProps> = ({
         </div>
       </div>
 
+      {audioUrl && (
+        <AudioPlayer
+          ref={audioRef}
+          src={audioUrl}
+          currentSpeaker={activeSpeaker && { label: activeSpeaker.label, color: getColorForSpeaker(activeSpeaker) }}
+          currentText={activeSegment?.text}
+          onTimeUpdate={setCurrentTime}
+        />
+      )}
+
+      {segments.length > 0 && (
+        <SpeakerTimeline
+          segments={segments}
+          speakers={speakers}
+          totalDuration={totalDuration}
+          getSpeakerColor={getColorForSpeaker}
+          currentTime={audioUrl ? currentTime : undefined}
+          activeSegment={activeSegment}
+          onSeek={audioUrl ? handleSeek : undefined}
+          onSegmentClick={isEditingPhrases ? setSelectedSegment : undefined}
+        />
+      )}
+
+      {isEditingPhrases && (
+        <div className="speaker-merge-bar">
+          {selectedSegment ? (
+            <>
+              <span className="phrase-edit-segment">
+                {formatTime(selectedSegment.start * 1000)}–{formatTime(selectedSegment.end * 1000)}
+                {' • '}{findSpeakerForSegment(selectedSegment)?.label || selectedSegment.speaker}
+                {selectedSegment.text && <>: "{selectedSegment.text.trim()}"</>}
+              </span>
+              <div className="speaker-merge-actions">
+                {renderReassignSelect(selectedSegment)}
+                <button className="stats-toolbar-btn" onClick={() => setSelectedSegment(null)}>
+                  Cancel
+                </button>
+              </div>
+            </>
+          ) : (
+            <>
+              <span>Pick a new speaker for any phrase under "All Phrases", or click a segment in the timeline.</span>
+              {onRestoreOriginal && (
+                <button
+                  className="stats-toolbar-btn"
+                  onClick={() => {
+                    if (window.confirm('Restore the original speakers? All merges and reassignments are reverted.')) {
+                      onRestoreOriginal();
+                    }
+                  }}
+                  title="Go back to the diarization output from before any edits"
+                >
+                  Restore original
+                </button>
+              )}
+            </>
+          )}
+        </div>
+      )}
+
+      {isMerging && (
+        <div className="speaker-merge-bar">
+          <span>Select the speakers that are the same person. The one who spoke most keeps their name.</span>
+          <div className="speaker-merge-actions">
+            <button
+              className="stats-toolbar-btn speaker-merge-confirm"
+              onClick={handleMerge}
+              disabled={mergeSelection.size < 2}
+            >
+              Merge {mergeSelection.size >= 2 ? `${mergeSelection.size} speakers` : ''}
+            </button>
+            <button className="stats-toolbar-btn" onClick={handleCancelMerge}>
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
       <div className="speakers-list">
         {speakers.map((speaker, index) => (
           <div key={speaker.id} className="speaker-item" style={{ borderLeftColor: getSpeakerColor(index) }}>
             <div className="speaker-header">
+              {isMerging && (
+                <input
+                  type="checkbox"
+                  className="speaker-merge-checkbox"
+                  checked={mergeSelection.has(speaker.id)}
+                  onChange={() => toggleMergeSelection(speaker.id)}
+                  aria-label={`Select ${speaker.label} for merging`}
+                />
+              )}
               {editingId === speaker.id ? (
                 <div className="speaker-edit-container">
                   <input
@@ -221,6 +499,10 @@ export const SpeakerStats: React.FC<SpeakerStatsProps> = ({
             
             <div className="speaker-time">
               {formatTime(speaker.speakingTime)}
+              {!!speaker.overlapTime && speaker.overlapTime >= 1000 && (
+                <span className="speaker-overlap-time"> ({formatTime(speaker.overlapTime)} overlapping, split with the other speakers)</span>
+              )}
+              {renderWordStats(speaker)}
             </div>
 
             {/* All Phrases - Collapsible Spoiler */}
@@ -248,12 +530,35 @@ export const SpeakerStats: React.FC<SpeakerStatsProps> = ({
                 </button>
                 {expandedPhrases.has(speaker.id) && (
                   <div className="all-phrases-content">
-                    {speaker.allPhrases.map((phrase, idx) => (
-                      <div key={idx} className="all-phrases-item">
-                        <span className="all-phrases-number">{idx + 1}.</span>
-                        <span className="all-phrases-text">"{phrase}"</span>
-                      </div>
-                    ))}
+                    {speaker.allPhrases.map((phrase, idx) => {
+                      const timing = getPhraseTiming(speaker, idx);
+                      const isActive = !!timing && !!activeSegment
+                        && activeSegment.start === timing.start && activeSegment.end === timing.end;
+                      const canSeek = !!audioUrl && !!timing;
+                      return (
+                        <div
+                          key={idx}
+                          className={`all-phrases-item ${canSeek ? 'all-phrases-item-seekable' : ''} ${isActive ? 'all-phrases-item-active' : ''}`}
+                          onClick={audioUrl && timing ? () => handleSeek(timing.start) : undefined}
+                          title={canSeek ? 'Play from here' : undefined}
+                        >
+                          <span className="all-phrases-number">{idx + 1}.</span>
+                          {isEditingPhrases && timing && renderReassignSelect({
+                            speaker: speaker.sourceLabel || speaker.label,
+                            start: timing.start,
+                            end: timing.end,
+                            text: phrase,
+                          })}
+                          <span className="all-phrases-text">
+                            "{splitByLexicon(phrase, fillerLexicons).map((part, partIdx) => part.kind ? (
+                              <mark key={partIdx} className={`phrase-${part.kind}`}>{part.text}</mark>
+                            ) : (
+                              <React.Fragment key={partIdx}>{part.text}</React.Fragment>
+                            ))}"
+                          </span>
+                        </div>
+                      );
+                    })}
                   </div>
                 )}
               </div>
@@ -283,9 +588,69 @@ export const SpeakerStats: React.FC<SpeakerStatsProps> = ({
             <div className="speaker-time">
               {formatTime(silenceTime)}
             </div>
+            {silence && (
+              <div className="silence-breakdown">
+                Lead-in & tail {formatTime(silence.leadIn + silence.tail)}
+                {' • '}pauses within a speaker {formatTime(silence.intraSpeakerPauses)}
+                {' • '}gaps between speakers {formatTime(silence.interSpeakerGaps)}
+              </div>
+            )}
           </div>
         )}
       </div>
+
+      {analytics?.turnTaking && (
+        <TurnTakingSection
+          turnTaking={analytics.turnTaking}
+          speakers={speakers}
+          getSpeakerColor={getColorForSpeaker}
+        />
+      )}
+
+      {analytics?.overlap && (
+        <InterruptionsSection
+          overlap={analytics.overlap}
+          speakers={speakers}
+          totalDuration={totalDuration}
+          getSpeakerColor={getColorForSpeaker}
+        />
+      )}
+
+      {analytics?.speakingRate && (
+        <SpeakingRateSection
+          speakingRate={analytics.speakingRate}
+          speakers={speakers}
+          getSpeakerColor={getColorForSpeaker}
+        />
+      )}
+
+      {analytics?.questions && (
+        <QuestionsSection
+          questions={analytics.questions}
+          speakers={speakers}
+          getSpeakerColor={getColorForSpeaker}
+        />
+      )}
+
+      {hasPhrases && (
+        <FillersSection
+          fillers={fillers}
+          speakers={speakers}
+          lexicons={fillerLexicons}
+          getSpeakerColor={getColorForSpeaker}
+          onLexiconsChange={handleLexiconsChange}
+          onLexiconsReset={handleLexiconsReset}
+        />
+      )}
+
+      {analytics?.gaps && (
+        <GapsSection
+          gaps={analytics.gaps}
+          speakers={speakers}
+          totalDuration={totalDuration}
+          getSpeakerColor={getColorForSpeaker}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,235 @@
+import React, { useMemo, useState } from 'react';
+import { DiarizationSegment, Speaker } from '../types';
+import { buildTimelineBuckets } from '../services/analytics';
+import { SILENCE_COLOR } from './speakerColors';
+import './SpeakerTimeline.css';
+
+interface SpeakerTimelineProps {
+  segments: DiarizationSegment[];
+  speakers: Speaker[];
+  totalDuration: number; // in ms
+  getSpeakerColor: (speaker: Speaker) => string;
+  currentTime?: number; // Playback position in seconds, shown as a playhead
+  activeSegment?: DiarizationSegment; // Segment being played, highlighted
+  onSeek?: (seconds: number) => void; // Makes segments clickable
+  onSegmentClick?: (segment: DiarizationSegment) => void; // Takes precedence over onSeek (e.g. while editing)
+}
+
+type TimelineView = 'lanes' | 'minutes';
+
+interface Lane {
+  key: string;
+  label: string;
+  color: string;
+  segments: DiarizationSegment[];
+}
+
+interface HoveredSegment {
+  segment: DiarizationSegment;
+  lane: Lane;
+  x: number;
+  y: number;
+}
+
+const ZOOM_LEVELS = [1, 2, 4, 8, 16, 32];
+// Candidate axis tick steps in seconds; the smallest giving at most ~10 ticks per screen is used
+const TICK_STEPS = [5, 10, 15, 30, 60, 120, 300, 600, 900, 1800, 3600];
+const MAX_TOOLTIP_TEXT = 200;
+
+const formatTimestamp = (seconds: number): string => {
+  const totalSeconds = Math.floor(seconds);
+  const minutes = Math.floor(totalSeconds / 60);
+  return `${minutes}:${(totalSeconds % 60).toString().padStart(2, '0')}`;
+};
+
+export const SpeakerTimeline: React.FC<SpeakerTimelineProps> = ({
+  segments,
+  speakers,
+  totalDuration,
+  getSpeakerColor,
+  currentTime,
+  activeSegment,
+  onSeek,
+  onSegmentClick,
+}) => {
+  const [view, setView] = useState<TimelineView>('lanes');
+  const [zoom, setZoom] = useState(1);
+  const [hovered, setHovered] = useState<HoveredSegment | null>(null);
+
+  // Timeline length in seconds (segments can run slightly past the reported duration)
+  const duration = Math.max(totalDuration / 1000, ...segments.map(segment => segment.end), 1);
+
+  // One lane per speaker in the speakers list order; segments of unknown speakers get their own lane
+  const lanes = useMemo<Lane[]>(() => {
+    const result: Lane[] = speakers.map(speaker => ({
+      key: speaker.id,
+      label: speaker.label,
+      color: getSpeakerColor(speaker),
+      segments: segments.filter(segment => segment.speaker === (speaker.sourceLabel || speaker.label)),
+    }));
+    const known = new Set(speakers.map(speaker => speaker.sourceLabel || speaker.label));
+    segments.forEach(segment => {
+      if (known.has(segment.speaker)) return;
+      let lane = result.find(item => item.key === `unknown-${segment.speaker}`);
+      if (!lane) {
+        lane = { key: `unknown-${segment.speaker}`, label: segment.speaker, color: SILENCE_COLOR, segments: [] };
+        result.push(lane);
+      }
+      lane.segments.push(segment);
+    });
+    return result.filter(lane => lane.segments.length > 0);
+  }, [segments, speakers, getSpeakerColor]);
+
+  const buckets = useMemo(
+    () => buildTimelineBuckets(segments, totalDuration),
+    [segments, totalDuration]
+  );
+
+  const tickStep = TICK_STEPS.find(step => duration / zoom / step <= 10) || TICK_STEPS[TICK_STEPS.length - 1];
+  const ticks = Array.from({ length: Math.floor(duration / tickStep) + 1 }, (_, index) => index * tickStep);
+  const toPercent = (seconds: number) => (seconds / duration) * 100;
+
+  const getLaneForSpeaker = (label: string) =>
+    lanes.find(lane => lane.segments.some(segment => segment.speaker === label));
+
+  const zoomIndex = ZOOM_LEVELS.indexOf(zoom);
+
+  return (
+    <div className="speaker-timeline">
+      <div className="speaker-timeline-header">
+        <h3 className="speaker-timeline-title">Timeline</h3>
+        <div className="speaker-timeline-views">
+          <button
+            className={`speaker-timeline-view ${view === 'lanes' ? 'active' : ''}`}
+            onClick={() => setView('lanes')}
+          >
+            Speakers
+          </button>
+          <button
+            className={`speaker-timeline-view ${view === 'minutes' ? 'active' : ''}`}
+            onClick={() => setView('minutes')}
+          >
+            Per minute
+          </button>
+        </div>
+        {view === 'lanes' && (
+          <div className="speaker-timeline-zoom">
+            <button onClick={() => setZoom(ZOOM_LEVELS[zoomIndex - 1])} disabled={zoomIndex <= 0} title="Zoom out">
+              −
+            </button>
+            <span className="speaker-timeline-zoom-level">{zoom}×</span>
+            <button
+              onClick={() => setZoom(ZOOM_LEVELS[zoomIndex + 1])}
+              disabled={zoomIndex >= ZOOM_LEVELS.length - 1}
+              title="Zoom in"
+            >
+              +
+            </button>
+          </div>
+        )}
+      </div>
+
+      {view === 'lanes' ? (
+        <div className="speaker-timeline-body">
+          <div className="speaker-timeline-labels">
+            <div className="speaker-timeline-axis-spacer"></div>
+            {lanes.map(lane => (
+              <div key={lane.key} className="speaker-timeline-label" title={lane.label}>
+                <span className="analytics-speaker-dot" style={{ backgroundColor: lane.color }}></span>
+                {lane.label}
+              </div>
+            ))}
+          </div>
+          <div className="speaker-timeline-scroll">
+            <div className="speaker-timeline-canvas" style={{ width: `${zoom * 100}%` }}>
+              <div className="speaker-timeline-axis">
+                {ticks.map(tick => (
+                  <span key={tick} className="speaker-timeline-tick" style={{ left: `${toPercent(tick)}%` }}>
+                    {formatTimestamp(tick)}
+                  </span>
+                ))}
+              </div>
+              {lanes.map(lane => (
+                <div key={lane.key} className="speaker-timeline-lane">
+                  {ticks.map(tick => (
+                    <span key={tick} className="speaker-timeline-gridline" style={{ left: `${toPercent(tick)}%` }}></span>
+                  ))}
+                  {lane.segments.map((segment, index) => (
+                    <div
+                      key={index}
+                      className={`speaker-timeline-segment ${segment === activeSegment ? 'active' : ''} ${onSeek || onSegmentClick ? 'seekable' : ''}`}
+                      style={{
+                        left: `${toPercent(segment.start)}%`,
+                        width: `${toPercent(segment.end - segment.start)}%`,
+                        backgroundColor: lane.color,
+                      }}
+                      onMouseEnter={(e) => setHovered({ segment, lane, x: e.clientX, y: e.clientY })}
+                      onMouseMove={(e) => setHovered({ segment, lane, x: e.clientX, y: e.clientY })}
+                      onMouseLeave={() => setHovered(null)}
+                      onClick={onSegmentClick
+                        ? () => onSegmentClick(segment)
+                        : onSeek ? () => onSeek(segment.start) : undefined}
+                    ></div>
+                  ))}
+                </div>
+              ))}
+              {currentTime !== undefined && currentTime > 0 && (
+                <div className="speaker-timeline-playhead" style={{ left: `${toPercent(currentTime)}%` }}></div>
+              )}
+            </div>
+          </div>
+        </div>
+      ) : (
+        <div className="speaker-timeline-minutes">
+          {buckets.map(bucket => {
+            const bucketLength = bucket.end - bucket.start;
+            const parts = Object.entries(bucket.speakingTime)
+              .map(([label, time]) => ({ label, time, lane: getLaneForSpeaker(label) }))
+              .sort((a, b) => b.time - a.time);
+            const title = [
+              `${formatTimestamp(bucket.start / 1000)}–${formatTimestamp(bucket.end / 1000)}`,
+              ...parts.map(part => `${part.lane?.label || part.label}: ${Math.round(part.time / 1000)}s`),
+            ].join('\n');
+            return (
+              <div key={bucket.start} className="speaker-timeline-minute" title={title}>
+                <div className="speaker-timeline-minute-bar">
+                  {parts.map(part => (
+                    <div
+                      key={part.label}
+                      className="speaker-timeline-minute-part"
+                      style={{
+                        height: `${(part.time / bucketLength) * 100}%`,
+                        backgroundColor: part.lane?.color || SILENCE_COLOR,
+                      }}
+                    ></div>
+                  ))}
+                </div>
+                <span className="speaker-timeline-minute-label">{Math.floor(bucket.start / 60_000)}</span>
+              </div>
+            );
+          })}
+        </div>
+      )}
+      {view === 'minutes' && (
+        <p className="speaker-timeline-hint">Bar height is the share of each minute spent talking (minutes from the start)</p>
+      )}
+
+      {hovered && (
+        <div className="speaker-timeline-tooltip" style={{ left: hovered.x + 12, top: hovered.y + 12 }}>
+          <div className="speaker-timeline-tooltip-speaker">{hovered.lane.label}</div>
+          <div className="speaker-timeline-tooltip-time">
+            {formatTimestamp(hovered.segment.start)} – {formatTimestamp(hovered.segment.end)}
+            {' '}({(hovered.segment.end - hovered.segment.start).toFixed(1)}s)
+          </div>
+          {hovered.segment.text && (
+            <div className="speaker-timeline-tooltip-text">
+              {hovered.segment.text.length > MAX_TOOLTIP_TEXT
+                ? `${hovered.segment.text.slice(0, MAX_TOOLTIP_TEXT)}…`
+                : hovered.segment.text}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
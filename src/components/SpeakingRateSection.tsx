@@ -0,0 +1,75 @@
+import React from 'react';
+import { Speaker, SpeakingRateStats } from '../types';
+import { Sparkline } from './Sparkline';
+
+interface SpeakingRateSectionProps {
+  speakingRate: SpeakingRateStats;
+  speakers: Speaker[];
+  getSpeakerColor: (speaker: Speaker) => string;
+}
+
+const formatBucket = (ms: number): string => {
+  const seconds = Math.round(ms / 1000);
+  return seconds < 60 ? `${seconds}s` : `${(seconds / 60).toFixed(seconds % 60 === 0 ? 0 : 1)} min`;
+};
+
+export const SpeakingRateSection: React.FC<SpeakingRateSectionProps> = ({
+  speakingRate,
+  speakers,
+  getSpeakerColor,
+}) => {
+  // Show rows in the same order as the speakers list
+  const rows = speakers
+    .map(speaker => ({
+      speaker,
+      stats: speakingRate.speakers.find(item => item.speaker === (speaker.sourceLabel || speaker.label)),
+    }))
+    .filter(row => row.stats);
+
+  return (
+    <div className="analytics-section">
+      <h3 className="analytics-section-title">Words & speaking rate</h3>
+      <p className="analytics-section-description">
+        {speakingRate.totalWords} words in total
+        <span className="analytics-muted">
+          {' '}• counted from {speakingRate.source === 'words' ? 'word timings' : 'segment text'}
+          {' '}• rate over time in {formatBucket(speakingRate.bucketDuration)} steps
+        </span>
+      </p>
+
+      <table className="analytics-table">
+        <thead>
+          <tr>
+            <th>Speaker</th>
+            <th>Words</th>
+            <th>Share of words</th>
+            <th>Share of time</th>
+            <th>WPM</th>
+            <th>Rate over time</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(({ speaker, stats }) => stats && (
+            <tr key={speaker.id}>
+              <td>
+                <span className="analytics-speaker-dot" style={{ backgroundColor: getSpeakerColor(speaker) }}></span>
+                {speaker.label}
+              </td>
+              <td>{stats.wordCount}</td>
+              <td>{stats.wordShare.toFixed(1)}%</td>
+              <td>{stats.timeShare.toFixed(1)}%</td>
+              <td>{Math.round(stats.wordsPerMinute)}</td>
+              <td>
+                <Sparkline
+                  values={stats.rateOverTime}
+                  color={getSpeakerColor(speaker)}
+                  title={stats.rateOverTime.map(value => value === null ? '–' : Math.round(value)).join(' · ')}
+                />
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
@@ -0,0 +1,197 @@
+import React, { useState } from 'react';
+import { DiarizationProviderId, SpeechModel, TranscriptionOptions, WordBoostLevel } from '../types';
+import './TranscriptionOptionsPanel.css';
+
+interface TranscriptionOptionsPanelProps {
+  options: TranscriptionOptions;
+  providerId: DiarizationProviderId;
+  onChange: (options: TranscriptionOptions) => void;
+}
+
+type SpeakerMode = 'auto' | 'exact' | 'range';
+
+const LANGUAGES: { code: string; name: string }[] = [
+  { code: 'en', name: 'English' },
+  { code: 'en_us', name: 'English (US)' },
+  { code: 'en_uk', name: 'English (UK)' },
+  { code: 'de', name: 'German' },
+  { code: 'fr', name: 'French' },
+  { code: 'es', name: 'Spanish' },
+  { code: 'it', name: 'Italian' },
+  { code: 'pt', name: 'Portuguese' },
+  { code: 'nl', name: 'Dutch' },
+  { code: 'pl', name: 'Polish' },
+  { code: 'uk', name: 'Ukrainian' },
+  { code: 'ru', name: 'Russian' },
+  { code: 'ja', name: 'Japanese' },
+  { code: 'zh', name: 'Chinese' },
+];
+
+export const TranscriptionOptionsPanel: React.FC<TranscriptionOptionsPanelProps> = ({
+  options,
+  providerId,
+  onChange,
+}) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [speakerMode, setSpeakerMode] = useState<SpeakerMode>(
+    options.speakersExpected ? 'exact' : options.minSpeakers || options.maxSpeakers ? 'range' : 'auto'
+  );
+  const [wordBoostText, setWordBoostText] = useState((options.wordBoost || []).join(', '));
+
+  const isLocal = providerId === 'local';
+
+  const parseCount = (value: string): number | undefined => {
+    const count = parseInt(value, 10);
+    return count > 0 ? Math.min(count, 20) : undefined;
+  };
+
+  const handleSpeakerModeChange = (mode: SpeakerMode) => {
+    setSpeakerMode(mode);
+    onChange({
+      ...options,
+      speakersExpected: mode === 'exact' ? options.speakersExpected || 2 : undefined,
+      minSpeakers: mode === 'range' ? options.minSpeakers || 2 : undefined,
+      maxSpeakers: mode === 'range' ? options.maxSpeakers || 4 : undefined,
+    });
+  };
+
+  const handleWordBoostBlur = () => {
+    const words = wordBoostText
+      .split(/[,\n]/)
+      .map(word => word.trim())
+      .filter(Boolean);
+    setWordBoostText(words.join(', '));
+    onChange({ ...options, wordBoost: words.length > 0 ? words : undefined });
+  };
+
+  // Short summary shown while the panel is collapsed
+  const summary = [
+    options.speakersExpected
+      ? `${options.speakersExpected} speakers`
+      : options.minSpeakers || options.maxSpeakers
+        ? `${options.minSpeakers || 1}-${options.maxSpeakers || '?'} speakers`
+        : 'auto speakers',
+    !isLocal && (options.languageCode || 'auto language'),
+    !isLocal && options.speechModel,
+    !isLocal && options.wordBoost?.length && `${options.wordBoost.length} boosted words`,
+  ].filter(Boolean).join(' • ');
+
+  return (
+    <div className="transcription-options">
+      <button
+        className="transcription-options-toggle"
+        onClick={() => setIsExpanded(!isExpanded)}
+      >
+        <span className="transcription-options-title">🎛️ Transcription options</span>
+        <span className="transcription-options-summary">{summary}</span>
+        <span className="transcription-options-chevron">{isExpanded ? '▼' : '▶'}</span>
+      </button>
+
+      {isExpanded && (
+        <div className="transcription-options-body">
+          <div className="transcription-options-field">
+            <span className="transcription-options-label">Speakers</span>
+            <div className="transcription-options-row">
+              <select
+                value={speakerMode}
+                onChange={(e) => handleSpeakerModeChange(e.target.value as SpeakerMode)}
+              >
+                <option value="auto">Detect automatically</option>
+                <option value="exact">Exactly</option>
+                <option value="range">Between</option>
+              </select>
+              {speakerMode === 'exact' && (
+                <input
+                  type="number"
+                  min={1}
+                  max={20}
+                  value={options.speakersExpected || ''}
+                  onChange={(e) => onChange({ ...options, speakersExpected: parseCount(e.target.value) })}
+                />
+              )}
+              {speakerMode === 'range' && (
+                <>
+                  <input
+                    type="number"
+                    min={1}
+                    max={20}
+                    value={options.minSpeakers || ''}
+                    onChange={(e) => onChange({ ...options, minSpeakers: parseCount(e.target.value) })}
+                  />
+                  <span>and</span>
+                  <input
+                    type="number"
+                    min={1}
+                    max={20}
+                    value={options.maxSpeakers || ''}
+                    onChange={(e) => onChange({ ...options, maxSpeakers: parseCount(e.target.value) })}
+                  />
+                </>
+              )}
+            </div>
+          </div>
+
+          {isLocal ? (
+            <p className="transcription-options-note">
+              On-device diarization only uses the speaker count. Language, model and vocabulary apply to AssemblyAI.
+            </p>
+          ) : (
+            <>
+              <label className="transcription-options-field">
+                <span className="transcription-options-label">Language</span>
+                <select
+                  value={options.languageCode || ''}
+                  onChange={(e) => onChange({ ...options, languageCode: e.target.value || undefined })}
+                >
+                  <option value="">Detect automatically</option>
+                  {LANGUAGES.map(language => (
+                    <option key={language.code} value={language.code}>
+                      {language.name} ({language.code})
+                    </option>
+                  ))}
+                </select>
+              </label>
+
+              <label className="transcription-options-field">
+                <span className="transcription-options-label">Speech model</span>
+                <select
+                  value={options.speechModel || ''}
+                  onChange={(e) => onChange({ ...options, speechModel: (e.target.value || undefined) as SpeechModel | undefined })}
+                >
+                  <option value="">Provider default</option>
+                  <option value="best">Best (most accurate)</option>
+                  <option value="nano">Nano (faster, cheaper)</option>
+                </select>
+              </label>
+
+              <label className="transcription-options-field transcription-options-field-full">
+                <span className="transcription-options-label">Custom vocabulary (comma separated)</span>
+                <textarea
+                  rows={2}
+                  placeholder="e.g. Kubernetes, Jira, standup"
+                  value={wordBoostText}
+                  onChange={(e) => setWordBoostText(e.target.value)}
+                  onBlur={handleWordBoostBlur}
+                />
+              </label>
+
+              {options.wordBoost && options.wordBoost.length > 0 && (
+                <label className="transcription-options-field">
+                  <span className="transcription-options-label">Boost</span>
+                  <select
+                    value={options.boostParam || 'default'}
+                    onChange={(e) => onChange({ ...options, boostParam: e.target.value as WordBoostLevel })}
+                  >
+                    <option value="low">Low</option>
+                    <option value="default">Default</option>
+                    <option value="high">High</option>
+                  </select>
+                </label>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,76 @@
+import React from 'react';
+import { Speaker, TurnTakingStats } from '../types';
+
+interface TurnTakingSectionProps {
+  turnTaking: TurnTakingStats;
+  speakers: Speaker[];
+  getSpeakerColor: (speaker: Speaker) => string;
+}
+
+const formatDuration = (ms: number): string => {
+  if (ms < 60_000) {
+    return `${(ms / 1000).toFixed(1)}s`;
+  }
+  const totalSeconds = Math.round(ms / 1000);
+  return `${Math.floor(totalSeconds / 60)}m ${(totalSeconds % 60).toString().padStart(2, '0')}s`;
+};
+
+const formatTimestamp = (seconds: number): string => {
+  const totalSeconds = Math.floor(seconds);
+  const minutes = Math.floor(totalSeconds / 60);
+  return `${minutes}:${(totalSeconds % 60).toString().padStart(2, '0')}`;
+};
+
+export const TurnTakingSection: React.FC<TurnTakingSectionProps> = ({
+  turnTaking,
+  speakers,
+  getSpeakerColor,
+}) => {
+  // Show rows in the same order as the speakers list
+  const rows = speakers
+    .map(speaker => ({
+      speaker,
+      stats: turnTaking.speakers.find(item => item.speaker === (speaker.sourceLabel || speaker.label)),
+    }))
+    .filter(row => row.stats);
+
+  if (rows.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="analytics-section">
+      <h3 className="analytics-section-title">Turn-taking ({turnTaking.totalTurns} turns)</h3>
+      <table className="analytics-table">
+        <thead>
+          <tr>
+            <th>Speaker</th>
+            <th>Turns</th>
+            <th>Share of turns</th>
+            <th>Mean turn</th>
+            <th>Median turn</th>
+            <th>Longest monologue</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(({ speaker, stats }) => stats && (
+            <tr key={speaker.id}>
+              <td>
+                <span className="analytics-speaker-dot" style={{ backgroundColor: getSpeakerColor(speaker) }}></span>
+                {speaker.label}
+              </td>
+              <td>{stats.turns}</td>
+              <td>{stats.turnShare.toFixed(1)}%</td>
+              <td>{formatDuration(stats.meanTurnLength)}</td>
+              <td>{formatDuration(stats.medianTurnLength)}</td>
+              <td title={`${formatTimestamp(stats.longestTurn.start)} - ${formatTimestamp(stats.longestTurn.end)}`}>
+                {formatDuration(stats.longestTurn.duration)}
+                <span className="analytics-muted"> at {formatTimestamp(stats.longestTurn.start)}</span>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
@@ -0,0 +1,17 @@
+// Define consistent colors for each speaker
+export const SPEAKER_COLORS = [
+  '#2196F3', // Blue
+  '#4CAF50', // Green
+  '#FF9800', // Orange
+  '#E91E63', // Pink
+  '#9C27B0', // Purple
+  '#00BCD4', // Cyan
+  '#FFC107', // Amber
+  '#F44336', // Red
+];
+
+export const SILENCE_COLOR = '#9E9E9E';
+
+export const getSpeakerColor = (index: number): string => {
+  return SPEAKER_COLORS[index % SPEAKER_COLORS.length];
+};
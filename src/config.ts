@@ -2,7 +2,18 @@
 // Set your AssemblyAI API key here
 // Get a free API key from: https://www.assemblyai.com/
 
+import { DiarizationProviderId, FillerLexicons, ParitySettings, TranscriptionOptions } from './types';
+import { DEFAULT_PROVIDER_ID, isProviderId, PollingStrategy } from './services/providers';
+import { DEFAULT_FILLER_LEXICONS, DEFAULT_PARITY_SETTINGS } from './services/analytics';
+
 const STORAGE_KEY = 'assemblyai_api_key';
+const PROVIDER_STORAGE_KEY = 'diarization_provider';
+const BASE_URL_STORAGE_KEY = 'assemblyai_base_url';
+const POLLING_STORAGE_KEY = 'assemblyai_polling_strategy';
+const TRANSCRIPTION_OPTIONS_STORAGE_KEY = 'transcription_options';
+const FILLER_LEXICONS_STORAGE_KEY = 'filler_lexicons';
+const PARITY_SETTINGS_STORAGE_KEY = 'parity_settings';
+const AUDIO_RETENTION_STORAGE_KEY = 'keep_meeting_audio';
 
 /**
  * Get API key from:
@@ -35,10 +46,172 @@ export function clearApiKey(): void {
   localStorage.removeItem(STORAGE_KEY);
 }
 
+/**
+ * Get the selected diarization provider from localStorage
+ */
+function getProviderId(): DiarizationProviderId {
+  const storedId = localStorage.getItem(PROVIDER_STORAGE_KEY);
+  return isProviderId(storedId) ? storedId : DEFAULT_PROVIDER_ID;
+}
+
+/**
+ * Save the selected diarization provider to localStorage
+ */
+export function saveProviderId(providerId: DiarizationProviderId): void {
+  localStorage.setItem(PROVIDER_STORAGE_KEY, providerId);
+}
+
+/**
+ * Get API base URL override from:
+ * 1. Environment variable (VITE_ASSEMBLY_AI_BASE_URL)
+ * 2. localStorage (if user entered it via UI)
+ * Returns undefined to use the default AssemblyAI endpoint
+ */
+function getBaseUrl(): string | undefined {
+  const envUrl = import.meta.env.VITE_ASSEMBLY_AI_BASE_URL;
+  if (envUrl) {
+    return envUrl;
+  }
+
+  const storedUrl = localStorage.getItem(BASE_URL_STORAGE_KEY);
+  return storedUrl || undefined;
+}
+
+/**
+ * Save API base URL override to localStorage
+ */
+export function saveBaseUrl(baseUrl: string): void {
+  localStorage.setItem(BASE_URL_STORAGE_KEY, baseUrl);
+}
+
+/**
+ * Clear API base URL override from localStorage
+ */
+export function clearBaseUrl(): void {
+  localStorage.removeItem(BASE_URL_STORAGE_KEY);
+}
+
+/**
+ * Get polling strategy overrides from:
+ * 1. Environment variable (VITE_ASSEMBLY_AI_POLLING, JSON)
+ * 2. localStorage (if user changed it via UI)
+ * Missing fields fall back to the defaults
+ */
+function getPollingStrategy(): Partial<PollingStrategy> {
+  const stored = import.meta.env.VITE_ASSEMBLY_AI_POLLING || localStorage.getItem(POLLING_STORAGE_KEY);
+  if (!stored) {
+    return {};
+  }
+  try {
+    return JSON.parse(stored) as Partial<PollingStrategy>;
+  } catch (error) {
+    console.error('Invalid polling strategy config, using defaults:', error);
+    return {};
+  }
+}
+
+/**
+ * Save polling strategy overrides to localStorage
+ */
+export function savePollingStrategy(strategy: Partial<PollingStrategy>): void {
+  localStorage.setItem(POLLING_STORAGE_KEY, JSON.stringify(strategy));
+}
+
+/**
+ * Get the last used transcription options from localStorage
+ */
+export function getTranscriptionOptions(): TranscriptionOptions {
+  try {
+    const stored = localStorage.getItem(TRANSCRIPTION_OPTIONS_STORAGE_KEY);
+    return stored ? JSON.parse(stored) as TranscriptionOptions : {};
+  } catch (error) {
+    console.error('Invalid transcription options, using defaults:', error);
+    return {};
+  }
+}
+
+/**
+ * Save transcription options to localStorage (reused for the next run)
+ */
+export function saveTranscriptionOptions(options: TranscriptionOptions): void {
+  localStorage.setItem(TRANSCRIPTION_OPTIONS_STORAGE_KEY, JSON.stringify(options));
+}
+
+/**
+ * Get the filler/hedging lexicons: built-in defaults with the user's edits per language
+ */
+export function getFillerLexicons(): FillerLexicons {
+  try {
+    const stored = localStorage.getItem(FILLER_LEXICONS_STORAGE_KEY);
+    return { ...DEFAULT_FILLER_LEXICONS, ...(stored ? JSON.parse(stored) as FillerLexicons : {}) };
+  } catch (error) {
+    console.error('Invalid filler lexicons, using defaults:', error);
+    return DEFAULT_FILLER_LEXICONS;
+  }
+}
+
+/**
+ * Save edited filler/hedging lexicons to localStorage
+ */
+export function saveFillerLexicons(lexicons: FillerLexicons): void {
+  localStorage.setItem(FILLER_LEXICONS_STORAGE_KEY, JSON.stringify(lexicons));
+}
+
+/**
+ * Drop the user's lexicon edits and go back to the defaults
+ */
+export function clearFillerLexicons(): void {
+  localStorage.removeItem(FILLER_LEXICONS_STORAGE_KEY);
+}
+
+/**
+ * Get the talk-parity metric, default meeting type and targets (defaults for anything not set)
+ */
+export function getParitySettings(): ParitySettings {
+  try {
+    const stored = localStorage.getItem(PARITY_SETTINGS_STORAGE_KEY);
+    const parsed = stored ? JSON.parse(stored) as Partial<ParitySettings> : {};
+    return {
+      ...DEFAULT_PARITY_SETTINGS,
+      ...parsed,
+      targets: { ...DEFAULT_PARITY_SETTINGS.targets, ...parsed.targets },
+    };
+  } catch (error) {
+    console.error('Invalid parity settings, using defaults:', error);
+    return DEFAULT_PARITY_SETTINGS;
+  }
+}
+
+/**
+ * Save talk-parity settings to localStorage
+ */
+export function saveParitySettings(settings: ParitySettings): void {
+  localStorage.setItem(PARITY_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+}
+
+/**
+ * Whether meeting audio is kept with history items (off by default)
+ */
+export function getAudioRetention(): boolean {
+  return localStorage.getItem(AUDIO_RETENTION_STORAGE_KEY) === 'true';
+}
+
+/**
+ * Save the audio retention choice to localStorage
+ */
+export function saveAudioRetention(enabled: boolean): void {
+  localStorage.setItem(AUDIO_RETENTION_STORAGE_KEY, String(enabled));
+}
+
 export const API_CONFIG = {
   // Set your API key here directly (or use .env file)
   // In .env file, use: VITE_ASSEMBLY_AI_API_KEY=your_key_here
   // (Vite requires VITE_ prefix for environment variables)
   ASSEMBLY_AI_API_KEY: getApiKey(),
+  DIARIZATION_PROVIDER: getProviderId(),
+  // Optional: point at the local mock server, e.g. http://localhost:8787/v2
+  ASSEMBLY_AI_BASE_URL: getBaseUrl(),
+  // Optional: polling backoff/timeout overrides, see PollingStrategy
+  POLLING_STRATEGY: getPollingStrategy(),
 };
 
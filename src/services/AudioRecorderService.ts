@@ -3,6 +3,8 @@ export class AudioRecorderService {
   private audioChunks: Blob[] = [];
   private stream: MediaStream | null = null;
   private audioContext: AudioContext | null = null;
+  // Audio decoded while converting a recording to WAV, until a provider takes it (see takeDecodedAudio)
+  private decodedRecordings = new WeakMap<Blob, AudioBuffer>();
 
   /**
    * Request microphone access and start recording
@@ -90,7 +92,11 @@ export class AudioRecorderService {
             if (wavBlob.type !== 'audio/wav') {
               console.warn('⚠️ WAV blob type mismatch:', wavBlob.type, '- recreating with correct type');
               const wavArrayBuffer = await wavBlob.arrayBuffer();
+              const decoded = this.decodedRecordings.get(wavBlob);
               wavBlob = new Blob([wavArrayBuffer], { type: 'audio/wav' });
+              if (decoded) {
+                this.decodedRecordings.set(wavBlob, decoded);
+              }
               console.log('✅ Recreated blob with correct type:', wavBlob.type);
             }
             
@@ -141,10 +147,59 @@ export class AudioRecorderService {
    * Convert audio blob to WAV format for better compatibility
    */
   private async convertToWav(audioBlob: Blob): Promise<Blob> {
+    try {
+      const audioBuffer = await this.decodeAudio(audioBlob);
+
+      // Convert to WAV
+      const wavBuffer = this.audioBufferToWav(audioBuffer);
+      
+      if (!wavBuffer || wavBuffer.byteLength === 0) {
+        throw new Error('WAV buffer is empty');
+      }
+      
+      // Verify WAV buffer has valid header before creating blob
+      const headerBytes = new Uint8Array(wavBuffer, 0, 12);
+      const headerString = String.fromCharCode(...headerBytes);
+      if (!headerString.startsWith('RIFF') || !headerString.includes('WAVE')) {
+        throw new Error('Invalid WAV file structure generated');
+      }
+      
+      const wavBlob = new Blob([wavBuffer], { type: 'audio/wav' });
+      this.decodedRecordings.set(wavBlob, audioBuffer);
+      
+      console.log('✅ WAV blob created and verified:', {
+        size: wavBlob.size,
+        type: wavBlob.type,
+        header: headerString.substring(0, 8),
+        dataSize: wavBuffer.byteLength
+      });
+
+      return wavBlob;
+    } catch (error: any) {
+      console.error('Error in convertToWav:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get (once) the audio decoded when a recording was converted to WAV, so it isn't decoded again
+   * @returns undefined for blobs that were not recorded here (e.g. uploaded files)
+   */
+  takeDecodedAudio(audioBlob: Blob): AudioBuffer | undefined {
+    const audioBuffer = this.decodedRecordings.get(audioBlob);
+    this.decodedRecordings.delete(audioBlob);
+    return audioBuffer;
+  }
+
+  /**
+   * Decode an audio blob into an AudioBuffer
+   * @param sampleRate - Target sample rate (decoded audio is resampled to it)
+   */
+  async decodeAudio(audioBlob: Blob, sampleRate: number = 44100): Promise<AudioBuffer> {
     try {
       // Create audio context
       const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)({
-        sampleRate: 44100
+        sampleRate
       });
       this.audioContext = audioContext;
 
@@ -169,36 +224,12 @@ export class AudioRecorderService {
         numberOfChannels: audioBuffer.numberOfChannels
       });
 
-      // Convert to WAV
-      const wavBuffer = this.audioBufferToWav(audioBuffer);
-      
-      if (!wavBuffer || wavBuffer.byteLength === 0) {
-        throw new Error('WAV buffer is empty');
-      }
-      
-      // Verify WAV buffer has valid header before creating blob
-      const headerBytes = new Uint8Array(wavBuffer, 0, 12);
-      const headerString = String.fromCharCode(...headerBytes);
-      if (!headerString.startsWith('RIFF') || !headerString.includes('WAVE')) {
-        throw new Error('Invalid WAV file structure generated');
-      }
-      
-      const wavBlob = new Blob([wavBuffer], { type: 'audio/wav' });
-      
-      console.log('✅ WAV blob created and verified:', {
-        size: wavBlob.size,
-        type: wavBlob.type,
-        header: headerString.substring(0, 8),
-        dataSize: wavBuffer.byteLength
-      });
-
       // Close audio context
       await audioContext.close();
       this.audioContext = null;
 
-      return wavBlob;
-    } catch (error: any) {
-      console.error('Error in convertToWav:', error);
+      return audioBuffer;
+    } catch (error) {
       if (this.audioContext) {
         await this.audioContext.close();
         this.audioContext = null;
@@ -207,6 +238,28 @@ export class AudioRecorderService {
     }
   }
 
+  /**
+   * Read the duration of an audio blob from its metadata (without decoding it)
+   * @returns Duration in milliseconds, or undefined if it can't be determined
+   */
+  getAudioDuration(audioBlob: Blob, timeoutMs: number = 5000): Promise<number | undefined> {
+    return new Promise((resolve) => {
+      const url = URL.createObjectURL(audioBlob);
+      const audio = new Audio();
+      const finish = (duration?: number) => {
+        clearTimeout(timeout);
+        audio.removeAttribute('src');
+        URL.revokeObjectURL(url);
+        resolve(duration !== undefined && Number.isFinite(duration) && duration > 0 ? duration * 1000 : undefined);
+      };
+      const timeout = setTimeout(() => finish(), timeoutMs);
+      audio.preload = 'metadata';
+      audio.onloadedmetadata = () => finish(audio.duration);
+      audio.onerror = () => finish();
+      audio.src = url;
+    });
+  }
+
   /**
    * Convert AudioBuffer to WAV format
    */
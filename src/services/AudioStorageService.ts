@@ -0,0 +1,79 @@
+import { AUDIO_STORE, isQuotaError, runInStore } from './indexedDb';
+
+export interface StoredAudio {
+  id: string; // HistoryItem.id
+  blob: Blob;
+  name: string; // Original file name or "recorded audio"
+  size: number; // in bytes
+  savedAt: number;
+}
+
+export interface StorageEstimate {
+  usage?: number; // in bytes, everything the app stores for this origin
+  quota?: number; // in bytes
+}
+
+/**
+ * The browser refused to store the audio (storage full)
+ */
+export class AudioStorageQuotaError extends Error {
+  constructor() {
+    super('Not enough browser storage to keep the audio. Delete audio from older meetings to free space.');
+    this.name = 'AudioStorageQuotaError';
+  }
+}
+
+/**
+ * Keeps meeting audio in IndexedDB, keyed by history item ID,
+ * so past meetings can be replayed and re-processed
+ */
+export class AudioStorageService {
+  /**
+   * Store audio for a history item (replaces existing audio); returns its size in bytes
+   */
+  static async saveAudio(id: string, blob: Blob, name: string): Promise<number> {
+    const record: StoredAudio = { id, blob, name, size: blob.size, savedAt: Date.now() };
+    try {
+      await runInStore(AUDIO_STORE, 'readwrite', store => store.put(record));
+      console.log(`💾 Stored audio for ${id} (${blob.size} bytes)`);
+      return blob.size;
+    } catch (error) {
+      if (isQuotaError(error)) {
+        throw new AudioStorageQuotaError();
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Get the stored audio of a history item, if any
+   */
+  static async getAudio(id: string): Promise<StoredAudio | undefined> {
+    return runInStore<StoredAudio | undefined>(AUDIO_STORE, 'readonly', store => store.get(id));
+  }
+
+  /**
+   * Delete the audio of a history item (its stats are kept)
+   */
+  static async deleteAudio(id: string): Promise<void> {
+    await runInStore(AUDIO_STORE, 'readwrite', store => store.delete(id));
+  }
+
+  /**
+   * Delete all stored audio
+   */
+  static async clearAudio(): Promise<void> {
+    await runInStore(AUDIO_STORE, 'readwrite', store => store.clear());
+  }
+
+  /**
+   * Storage used by the app and the browser's quota for it, where the browser reports them
+   */
+  static async getStorageEstimate(): Promise<StorageEstimate> {
+    if (!navigator.storage?.estimate) {
+      return {};
+    }
+    const { usage, quota } = await navigator.storage.estimate();
+    return { usage, quota };
+  }
+}
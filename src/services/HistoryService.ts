@@ -1,88 +1,244 @@
 import { HistoryItem } from '../types';
+import { computeMeetingAnalytics } from './analytics';
+import { HISTORY_STORE, isQuotaError, promisifyRequest, runInStore, withStore } from './indexedDb';
 
-const HISTORY_STORAGE_KEY = 'talk-parity-history';
+// Where history lived before it moved to IndexedDB; migrated once, then removed
+const LEGACY_HISTORY_STORAGE_KEY = 'talk-parity-history';
+// Unreadable legacy history is moved here, so it can still be recovered by hand
+const CORRUPT_HISTORY_BACKUP_KEY = 'talk-parity-history.corrupt';
+
+// Version of the stored HistoryItem shape; bump it and add a step to HISTORY_MIGRATIONS when it changes
+export const HISTORY_SCHEMA_VERSION = 2;
+
+/**
+ * One upgrade step per schema version: HISTORY_MIGRATIONS[n - 1] turns a version n item into version n + 1
+ */
+const HISTORY_MIGRATIONS: ((item: HistoryItem) => HistoryItem)[] = [
+  // 1 -> 2: items from localStorage; derive the analytics that older items were saved without
+  (item) => ({
+    ...item,
+    analytics: item.analytics || computeMeetingAnalytics({
+      segments: item.segments || [],
+      words: item.words,
+      totalDuration: item.duration,
+    }),
+  }),
+];
+
+/**
+ * History could not be read or written
+ */
+export class HistoryStorageError extends Error {
+  constructor(message: string, readonly cause?: unknown) {
+    super(message);
+    this.name = 'HistoryStorageError';
+  }
+}
+
+/**
+ * The browser refused to store more history (storage full)
+ */
+export class HistoryQuotaError extends HistoryStorageError {
+  constructor(cause?: unknown) {
+    super('Browser storage is full. Delete older meetings or their audio to free space.', cause);
+    this.name = 'HistoryQuotaError';
+  }
+}
+
+/**
+ * Minimal shape check for items read from storage or older versions
+ */
+export function isHistoryItemLike(value: unknown): value is HistoryItem {
+  if (!value || typeof value !== 'object') return false;
+  const item = value as Partial<HistoryItem>;
+  return typeof item.id === 'string'
+    && typeof item.timestamp === 'number'
+    && Array.isArray(item.speakers)
+    && typeof item.duration === 'number';
+}
+
+/**
+ * Bring an item written with an older schema version up to date
+ */
+export function migrateHistoryItem(item: HistoryItem): HistoryItem {
+  let migrated = item;
+  for (let version = item.schemaVersion || 1; version < HISTORY_SCHEMA_VERSION; version++) {
+    migrated = HISTORY_MIGRATIONS[version - 1](migrated);
+  }
+  return { ...migrated, schemaVersion: HISTORY_SCHEMA_VERSION };
+}
+
+const toStorageError = (action: string, error: unknown): HistoryStorageError => {
+  if (error instanceof HistoryStorageError) return error;
+  if (isQuotaError(error)) return new HistoryQuotaError(error);
+  const reason = error instanceof Error ? error.message : String(error);
+  return new HistoryStorageError(`Failed to ${action}: ${reason}`, error);
+};
 
 export class HistoryService {
+  private static ready: Promise<void> | null = null;
+
   /**
-   * Get all history items from local storage
+   * Get all history items, newest first
    */
-  static getHistory(): HistoryItem[] {
+  static async getHistory(): Promise<HistoryItem[]> {
     try {
-      const stored = localStorage.getItem(HISTORY_STORAGE_KEY);
-      if (!stored) {
-        return [];
+      await this.ensureMigrated();
+      const items = await runInStore<HistoryItem[]>(HISTORY_STORE, 'readonly', store => store.getAll());
+
+      // Items written by an older version of the app are upgraded and written back
+      const outdated = items.filter(item => (item.schemaVersion || 1) < HISTORY_SCHEMA_VERSION);
+      if (outdated.length > 0) {
+        const migrated = outdated.map(migrateHistoryItem);
+        await this.putItems(migrated);
+        const byId = new Map(migrated.map(item => [item.id, item]));
+        return items.map(item => byId.get(item.id) || item).sort((a, b) => b.timestamp - a.timestamp);
       }
-      const items = JSON.parse(stored) as HistoryItem[];
-      // Sort by timestamp, newest first
       return items.sort((a, b) => b.timestamp - a.timestamp);
     } catch (error) {
-      console.error('Error loading history from localStorage:', error);
-      return [];
+      console.error('Error loading history:', error);
+      throw toStorageError('load history', error);
     }
   }
 
   /**
    * Add a new item to history
    */
-  static addHistoryItem(item: HistoryItem): void {
+  static async addHistoryItem(item: HistoryItem): Promise<void> {
     try {
-      const history = this.getHistory();
-      history.unshift(item); // Add to beginning
-      localStorage.setItem(HISTORY_STORAGE_KEY, JSON.stringify(history));
+      await this.ensureMigrated();
+      await this.putItems([{ ...item, schemaVersion: HISTORY_SCHEMA_VERSION }]);
     } catch (error) {
       console.error('Error saving to history:', error);
-      throw new Error('Failed to save to history. Storage may be full.');
+      throw toStorageError('save to history', error);
+    }
+  }
+
+  /**
+   * Write imported items in one transaction, so a failed import changes nothing
+   */
+  static async importHistoryItems(items: HistoryItem[]): Promise<void> {
+    try {
+      await this.ensureMigrated();
+      await this.putItems(items.map(item => ({ ...item, schemaVersion: HISTORY_SCHEMA_VERSION })));
+    } catch (error) {
+      console.error('Error importing history:', error);
+      throw toStorageError('import history', error);
     }
   }
 
   /**
    * Update an existing history item (e.g., rename)
    */
-  static updateHistoryItem(id: string, updates: Partial<HistoryItem>): void {
+  static async updateHistoryItem(id: string, updates: Partial<HistoryItem>): Promise<void> {
     try {
-      const history = this.getHistory();
-      const index = history.findIndex(item => item.id === id);
-      if (index !== -1) {
-        history[index] = { ...history[index], ...updates };
-        localStorage.setItem(HISTORY_STORAGE_KEY, JSON.stringify(history));
-      }
+      await this.ensureMigrated();
+      await withStore(HISTORY_STORE, 'readwrite', async store => {
+        const existing = await promisifyRequest<HistoryItem | undefined>(store.get(id));
+        if (existing) {
+          await promisifyRequest(store.put({ ...migrateHistoryItem(existing), ...updates, id }));
+        }
+      });
     } catch (error) {
       console.error('Error updating history item:', error);
-      throw new Error('Failed to update history item.');
+      throw toStorageError('update history item', error);
     }
   }
 
   /**
    * Delete a history item
    */
-  static deleteHistoryItem(id: string): void {
+  static async deleteHistoryItem(id: string): Promise<void> {
     try {
-      const history = this.getHistory();
-      const filtered = history.filter(item => item.id !== id);
-      localStorage.setItem(HISTORY_STORAGE_KEY, JSON.stringify(filtered));
+      await this.ensureMigrated();
+      await runInStore(HISTORY_STORE, 'readwrite', store => store.delete(id));
     } catch (error) {
       console.error('Error deleting history item:', error);
-      throw new Error('Failed to delete history item.');
+      throw toStorageError('delete history item', error);
     }
   }
 
   /**
    * Get a single history item by ID
    */
-  static getHistoryItem(id: string): HistoryItem | null {
-    const history = this.getHistory();
-    return history.find(item => item.id === id) || null;
+  static async getHistoryItem(id: string): Promise<HistoryItem | null> {
+    try {
+      await this.ensureMigrated();
+      const item = await runInStore<HistoryItem | undefined>(HISTORY_STORE, 'readonly', store => store.get(id));
+      return item ? migrateHistoryItem(item) : null;
+    } catch (error) {
+      console.error('Error loading history item:', error);
+      throw toStorageError('load history item', error);
+    }
   }
 
   /**
    * Clear all history
    */
-  static clearHistory(): void {
+  static async clearHistory(): Promise<void> {
     try {
-      localStorage.removeItem(HISTORY_STORAGE_KEY);
+      await this.ensureMigrated();
+      await runInStore(HISTORY_STORE, 'readwrite', store => store.clear());
     } catch (error) {
       console.error('Error clearing history:', error);
-      throw new Error('Failed to clear history.');
+      throw toStorageError('clear history', error);
+    }
+  }
+
+  private static async putItems(items: HistoryItem[]): Promise<void> {
+    await withStore(HISTORY_STORE, 'readwrite', async store => {
+      await Promise.all(items.map(item => promisifyRequest(store.put(item))));
+    });
+  }
+
+  /**
+   * Move history from localStorage into IndexedDB the first time it is used.
+   * The old key is only removed after everything was written, so a failed run is retried on the next start.
+   */
+  private static ensureMigrated(): Promise<void> {
+    if (!this.ready) {
+      this.ready = this.migrateFromLocalStorage().catch(error => {
+        this.ready = null;
+        throw error;
+      });
     }
+    return this.ready;
+  }
+
+  private static async migrateFromLocalStorage(): Promise<void> {
+    const stored = localStorage.getItem(LEGACY_HISTORY_STORAGE_KEY);
+    if (!stored) {
+      return;
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(stored);
+    } catch (error) {
+      // Set the data aside instead of failing every history operation on it
+      console.error(`Saved history in localStorage ("${LEGACY_HISTORY_STORAGE_KEY}") is corrupted:`, error);
+      try {
+        localStorage.setItem(CORRUPT_HISTORY_BACKUP_KEY, stored);
+        localStorage.removeItem(LEGACY_HISTORY_STORAGE_KEY);
+        console.warn(`⚠️ Moved unreadable history to localStorage "${CORRUPT_HISTORY_BACKUP_KEY}"`);
+      } catch (backupError) {
+        // No room for a copy: keep the original where it is, it is just not migrated
+        console.warn('⚠️ Could not back up unreadable history, leaving it in place:', backupError);
+      }
+      return;
+    }
+
+    const candidates = Array.isArray(parsed) ? parsed : [];
+    const items = candidates.filter(isHistoryItemLike);
+    if (items.length < candidates.length) {
+      console.warn(`⚠️ Skipped ${candidates.length - items.length} unreadable history item(s) during migration`);
+    }
+
+    // Don't overwrite items that are already in IndexedDB (e.g. a migration that was interrupted)
+    const existingIds = new Set(await runInStore<IDBValidKey[]>(HISTORY_STORE, 'readonly', store => store.getAllKeys()));
+    await this.putItems(items.filter(item => !existingIds.has(item.id)).map(migrateHistoryItem));
+
+    localStorage.removeItem(LEGACY_HISTORY_STORAGE_KEY);
+    console.log(`🗄️ Migrated ${items.length} history item(s) from localStorage to IndexedDB`);
   }
 }
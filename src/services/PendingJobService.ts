@@ -0,0 +1,57 @@
+import { PendingJob } from '../types';
+
+const PENDING_JOBS_STORAGE_KEY = 'talk-parity-pending-jobs';
+
+/**
+ * Keeps track of transcription jobs that were started but not finished,
+ * so they can be resumed after a page reload
+ */
+export class PendingJobService {
+  /**
+   * Get all pending jobs from local storage
+   */
+  static getPendingJobs(): PendingJob[] {
+    try {
+      const stored = localStorage.getItem(PENDING_JOBS_STORAGE_KEY);
+      if (!stored) {
+        return [];
+      }
+      const jobs = JSON.parse(stored) as PendingJob[];
+      // Sort by start time, newest first
+      return jobs.sort((a, b) => b.startTime - a.startTime);
+    } catch (error) {
+      console.error('Error loading pending jobs from localStorage:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Remember a job right after it has been started
+   */
+  static addPendingJob(job: PendingJob): void {
+    try {
+      const jobs = this.getPendingJobs().filter(item => item.transcriptId !== job.transcriptId);
+      jobs.unshift(job);
+      localStorage.setItem(PENDING_JOBS_STORAGE_KEY, JSON.stringify(jobs));
+    } catch (error) {
+      // Not fatal: the transcription itself continues, it just can't be resumed after a reload
+      console.error('Error saving pending job:', error);
+    }
+  }
+
+  /**
+   * Forget a job once it has completed or failed permanently
+   */
+  static removePendingJob(transcriptId: string): void {
+    try {
+      const jobs = this.getPendingJobs().filter(item => item.transcriptId !== transcriptId);
+      if (jobs.length > 0) {
+        localStorage.setItem(PENDING_JOBS_STORAGE_KEY, JSON.stringify(jobs));
+      } else {
+        localStorage.removeItem(PENDING_JOBS_STORAGE_KEY);
+      }
+    } catch (error) {
+      console.error('Error removing pending job:', error);
+    }
+  }
+}
@@ -1,9 +1,20 @@
-import axios from 'axios';
-import { DiarizationSegment, Speaker } from '../types';
-
-export interface ApiRequestCallback {
-  (info: { method: string; url: string; status?: number; responseTime?: number; error?: string; responseData?: any }): void;
-}
+import { DiarizationProviderId, DiarizationSegment, PendingJob, PhraseTiming, ProviderInfo, Speaker, StatsOptions, TranscriptionOptions, TranscriptWord } from '../types';
+import {
+  ApiRequestCallback,
+  createProvider,
+  DEFAULT_PROVIDER_ID,
+  DiarizationProvider,
+  PollingStrategy,
+  ProviderContext,
+  resolvePollingStrategy,
+  TranscriptionCancelledError,
+  TranscriptionFailedError,
+} from './providers';
+import { PendingJobService } from './PendingJobService';
+import { audioRecorderService } from './AudioRecorderService';
+import { computeSpeakerActivity } from './analytics';
+
+export type { ApiRequestCallback };
 
 export interface ApiInfo {
   uploadUrl?: string;
@@ -16,13 +27,43 @@ export interface ApiInfo {
   transcriptStatus?: string;
   pollAttempts?: number;
   pollStartTime?: number; // Timestamp when polling started
+  pollStrategy?: string; // Summary of the polling backoff settings
+  pollTimeout?: number; // Polling gives up after this many ms
+  nextPollDelay?: number; // Delay before the next poll in ms
+  pollRetries?: number; // Transient poll errors that were retried
   processingStartTime?: number; // Timestamp when processing started
   totalProcessingTime?: number;
+  provider?: ProviderInfo; // Provider running the job (on-device when no API key was set)
+}
+
+export interface TranscribeOptions {
+  sourceName?: string; // Shown when offering to resume an interrupted job
+  signal?: AbortSignal; // Cancels the upload, transcription request and polling
+  audioDuration?: number; // Known audio duration in ms (otherwise read from the file)
+  transcriptionOptions?: TranscriptionOptions; // Speakers, language, model and vocabulary for this run
+}
+
+export interface TranscriptionResult {
+  segments: DiarizationSegment[];
+  words?: TranscriptWord[];
+  audioDuration: number;
+  provider: ProviderInfo;
+  transcriptionOptions?: TranscriptionOptions;
 }
 
+export const DEFAULT_STATS_OPTIONS: StatsOptions = {
+  minPhraseLength: 10,
+  percentageBasis: 'audio',
+};
+
+// History items saved before providers were recorded all came from AssemblyAI
+const LEGACY_PROVIDER: ProviderInfo = { id: 'assemblyai', name: 'AssemblyAI', config: {} };
+
 export class SpeakerDiarizationService {
   private apiKey: string = '';
-  private apiUrl: string = 'https://api.assemblyai.com/v2';
+  private baseUrl: string | undefined;
+  private pollingStrategy: Partial<PollingStrategy> = {};
+  private provider: DiarizationProvider = createProvider(DEFAULT_PROVIDER_ID);
   private apiInfoCallback?: (info: ApiInfo) => void;
   private requestCallback: ApiRequestCallback | null = null;
 
@@ -34,11 +75,64 @@ export class SpeakerDiarizationService {
   }
 
   /**
-   * Set API key for AssemblyAI (or configure your preferred service)
-   * You can get a free API key from https://www.assemblyai.com/
+   * Set API key for the diarization provider
+   * You can get a free AssemblyAI API key from https://www.assemblyai.com/
    */
   setApiKey(apiKey: string): void {
     this.apiKey = apiKey;
+    this.provider.setApiKey(apiKey);
+  }
+
+  /**
+   * Override the provider API base URL (e.g. to use the local mock server)
+   */
+  setBaseUrl(baseUrl: string | undefined): void {
+    this.baseUrl = baseUrl;
+    this.provider.setBaseUrl?.(baseUrl);
+  }
+
+  /**
+   * Get the provider API base URL override (undefined = provider default)
+   */
+  getBaseUrl(): string | undefined {
+    return this.baseUrl;
+  }
+
+  /**
+   * Override how running jobs are polled; missing fields use the defaults
+   */
+  setPollingStrategy(strategy: Partial<PollingStrategy>): void {
+    this.pollingStrategy = strategy;
+    this.provider.setPollingStrategy?.(strategy);
+  }
+
+  /**
+   * Get the effective polling strategy (overrides merged with defaults)
+   */
+  getPollingStrategy(): PollingStrategy {
+    return resolvePollingStrategy(this.pollingStrategy);
+  }
+
+  /**
+   * Switch the diarization provider used for new transcriptions
+   */
+  setProvider(providerId: DiarizationProviderId): void {
+    if (this.provider.id === providerId) {
+      return;
+    }
+    this.provider = createProvider(providerId);
+    if (this.apiKey) {
+      this.provider.setApiKey(this.apiKey);
+    }
+    this.provider.setBaseUrl?.(this.baseUrl);
+    this.provider.setPollingStrategy?.(this.pollingStrategy);
+  }
+
+  /**
+   * Get the currently selected diarization provider
+   */
+  getProvider(): DiarizationProvider {
+    return this.provider;
   }
 
   /**
@@ -61,18 +155,29 @@ export class SpeakerDiarizationService {
    * Upload audio file and get transcript with speaker diarization
    * @param audioBlob - Audio blob or file to transcribe
    * @param fileName - Optional filename (if not provided, will be inferred from blob type)
+   * @param options - Optional run settings
    */
-  async transcribeWithDiarization(audioBlob: Blob | File, fileName?: string): Promise<{ segments: DiarizationSegment[]; audioDuration: number }> {
+  async transcribeWithDiarization(
+    audioBlob: Blob | File,
+    fileName?: string,
+    options: TranscribeOptions = {},
+  ): Promise<TranscriptionResult> {
+    // Without credentials, fall back to on-device diarization instead of failing
+    const provider = this.provider.requiresApiKey && !this.provider.hasApiKey()
+      ? createProvider('local')
+      : this.provider;
+    if (provider !== this.provider) {
+      console.warn(`${this.provider.name} API key not set - using ${provider.name} diarization`);
+    }
     const startTime = Date.now();
+    // Recordings were already decoded for the WAV conversion
+    const decodedAudio = audioRecorderService.takeDecodedAudio(audioBlob);
     const apiInfo: ApiInfo = {
       uploadSize: audioBlob.size,
       processingStartTime: startTime, // Track when processing started
+      provider: provider.describe(options.transcriptionOptions),
     };
 
-    if (!this.apiKey) {
-      throw new Error('API key not set. Please configure your AssemblyAI API key in the .env file or settings.');
-    }
-
     // Validate audio blob
     if (!audioBlob || audioBlob.size === 0) {
       throw new Error('Audio file is empty. Please record some audio first.');
@@ -159,10 +264,6 @@ export class SpeakerDiarizationService {
       throw new Error(`Invalid audio format: ${audioBlob.type}. Expected audio/wav or similar.`);
     }
 
-    // Step 1: Upload audio file
-    // Note: AssemblyAI expects raw binary data with Content-Type: application/octet-stream
-    // NOT multipart/form-data, so we don't use FormData
-    
     // Ensure we have a valid audio type before creating File
     let finalType = audioBlob.type;
     if (!finalType || finalType === 'application/octet-stream' || finalType === '') {
@@ -275,411 +376,226 @@ export class SpeakerDiarizationService {
       throw new Error(`Invalid audio file type: ${finalType}. The audio file format could not be determined.`);
     }
 
-    const uploadUrl_full = `${this.apiUrl}/upload`;
-    const uploadStartTime = Date.now();
-    
-    // Update API info with upload request URL
-    this.updateApiInfo({
-      ...apiInfo,
-      uploadRequestUrl: uploadUrl_full,
-    });
-    
-    if (this.requestCallback) {
-      this.requestCallback({
-        method: 'POST',
-        url: uploadUrl_full,
-      });
-    }
-
-    // According to AssemblyAI docs, we need to send raw binary data with Content-Type: application/octet-stream
-    // NOT multipart/form-data. Read the file as ArrayBuffer and send it directly.
-    console.log('📋 Preparing file for upload (raw binary):', {
-      fileName: fileName,
-      fileType: finalType,
-      fileSize: audioFile.size
-    });
+    // The audio length sizes the polling timeout
+    const audioDuration = options.audioDuration || await audioRecorderService.getAudioDuration(audioFile);
+
+    const context: ProviderContext = {
+      apiInfo,
+      updateApiInfo: (info) => this.updateApiInfo(info),
+      requestCallback: this.requestCallback,
+      signal: options.signal,
+      audioDuration,
+      options: options.transcriptionOptions,
+      decodedAudio,
+    };
 
-    // Read the file as ArrayBuffer for raw binary upload
-    const fileArrayBuffer = await audioFile.arrayBuffer();
-    
-    console.log('🚀 Uploading to AssemblyAI (raw binary):', {
-      url: uploadUrl_full,
-      fileName: audioFile.name,
-      fileType: finalType,
-      fileSize: fileArrayBuffer.byteLength,
-      contentType: 'application/octet-stream'
-    });
-    
-    const uploadResponse = await fetch(uploadUrl_full, {
-      method: 'POST',
-      headers: {
-        authorization: this.apiKey,
-        'Content-Type': 'application/octet-stream', // Raw binary data, not multipart/form-data
-      },
-      body: fileArrayBuffer, // Send raw binary data
-    });
-    
-    console.log('📡 Upload response:', {
-      status: uploadResponse.status,
-      statusText: uploadResponse.statusText,
-      headers: Object.fromEntries(uploadResponse.headers.entries())
-    });
+    let uploadUrl: string;
+    let transcriptId: string;
+    try {
+      options.signal?.throwIfAborted();
 
-    const uploadResponseTime = Date.now() - uploadStartTime;
+      // Step 1: Upload audio file
+      uploadUrl = await provider.upload(audioFile, context);
+      this.updateApiInfo(apiInfo);
 
-    if (!uploadResponse.ok) {
-      let errorText = '';
-      let errorData = null;
-      try {
-        errorData = await uploadResponse.json();
-        errorText = errorData.error || JSON.stringify(errorData);
-      } catch {
-        errorText = await uploadResponse.text();
-      }
-      
-      if (this.requestCallback) {
-        this.requestCallback({
-          method: 'POST',
-          url: uploadUrl_full,
-          status: uploadResponse.status,
-          responseTime: uploadResponseTime,
-          error: errorText,
-          responseData: errorData,
-        });
+      // Step 2: Start transcription with speaker diarization
+      transcriptId = await provider.startJob(uploadUrl, context);
+    } catch (error) {
+      if (options.signal?.aborted) {
+        throw new TranscriptionCancelledError(undefined, provider.describe(context.options));
       }
-      
-      throw new Error(`Upload failed (${uploadResponse.status}): ${errorText}`);
+      throw error;
     }
 
-    const uploadData = await uploadResponse.json();
-    const uploadUrl = uploadData.upload_url;
-    
-    if (this.requestCallback) {
-      this.requestCallback({
-        method: 'POST',
-        url: uploadUrl_full,
-        status: uploadResponse.status,
-        responseTime: uploadResponseTime,
-        responseData: { upload_url: uploadUrl, ...uploadData },
-      });
-    }
-    
-    if (!uploadUrl) {
-      throw new Error('Failed to get upload URL from API response');
-    }
+    apiInfo.transcriptId = transcriptId;
+    apiInfo.transcriptStatus = 'queued';
+    this.updateApiInfo(apiInfo);
 
-    // Step 2: Start transcription with speaker diarization
-    const transcriptUrl = `${this.apiUrl}/transcript`;
-    const transcriptStartTime = Date.now();
-    
-    // Update API info with transcript request URL
-    this.updateApiInfo({
-      ...apiInfo,
-      uploadUrl: uploadUrl,
-      uploadTime: uploadResponseTime,
-      transcriptRequestUrl: transcriptUrl,
-    });
-    
-    if (this.requestCallback) {
-      this.requestCallback({
-        method: 'POST',
-        url: transcriptUrl,
+    // Remember the job so it can be resumed if the page is reloaded while polling
+    if (provider.supportsResume) {
+      PendingJobService.addPendingJob({
+        transcriptId,
+        uploadUrl,
+        startTime,
+        sourceName: options.sourceName || fileName,
+        provider: provider.describe(context.options),
+        uploadSize: audioBlob.size,
+        audioDuration,
+        transcriptionOptions: options.transcriptionOptions,
       });
     }
 
-    let transcriptResponse;
-    try {
-      transcriptResponse = await axios.post(
-        transcriptUrl,
-        {
-          audio_url: uploadUrl,
-          speaker_labels: true,
-          language_detection: true,
-        },
-        {
-          headers: {
-            authorization: this.apiKey,
-            'content-type': 'application/json',
-          },
-        },
-      );
-      
-      const transcriptResponseTime = Date.now() - transcriptStartTime;
-      
-      if (this.requestCallback) {
-        this.requestCallback({
-          method: 'POST',
-          url: transcriptUrl,
-          status: transcriptResponse.status,
-          responseTime: transcriptResponseTime,
-          responseData: { id: transcriptResponse.data.id, status: transcriptResponse.data.status },
-        });
-      }
-    } catch (error: any) {
-      const transcriptResponseTime = Date.now() - transcriptStartTime;
-      const errorMessage = error?.response?.data?.error || error?.message || 'Unknown error';
-      
-      if (this.requestCallback) {
-        this.requestCallback({
-          method: 'POST',
-          url: transcriptUrl,
-          status: error?.response?.status,
-          responseTime: transcriptResponseTime,
-          error: errorMessage,
-          responseData: error?.response?.data,
-        });
-      }
-      
-      throw new Error(`Failed to start transcription: ${errorMessage}`);
-    }
+    // Step 3: Wait for completion
+    return this.awaitJob(provider, transcriptId, context, startTime);
+  }
 
-    const transcriptId = transcriptResponse.data.id;
-    
-    if (!transcriptId) {
-      throw new Error('Failed to get transcript ID from API response');
+  /**
+   * Resume polling a job that was started before a page reload
+   */
+  async resumeTranscription(job: PendingJob, signal?: AbortSignal): Promise<TranscriptionResult> {
+    const provider = this.createProviderFor(job.provider);
+
+    if (provider.requiresApiKey && !provider.hasApiKey()) {
+      throw new Error(`API key not set. Please configure your ${provider.name} API key to resume this transcription.`);
     }
 
-    apiInfo.transcriptId = transcriptId;
-    apiInfo.transcriptStatus = 'queued';
+    const startTime = Date.now();
+    const apiInfo: ApiInfo = {
+      uploadSize: job.uploadSize,
+      uploadUrl: job.uploadUrl,
+      processingStartTime: startTime,
+      transcriptId: job.transcriptId,
+      transcriptStatus: 'resuming',
+      provider: job.provider,
+    };
     this.updateApiInfo(apiInfo);
 
-    // Step 3: Poll for completion
-    const segments = await this.pollForCompletion(transcriptId, apiInfo);
-    
-    // Extract audio duration from segments if available
-    const audioDuration = (segments as any).audioDuration || 0;
-    delete (segments as any).audioDuration; // Clean up metadata
-
-    apiInfo.totalProcessingTime = Date.now() - startTime;
-    this.updateApiInfo(apiInfo);
+    const context: ProviderContext = {
+      apiInfo,
+      updateApiInfo: (info) => this.updateApiInfo(info),
+      requestCallback: this.requestCallback,
+      signal,
+      audioDuration: job.audioDuration,
+      options: job.transcriptionOptions,
+    };
 
-    // Return segments with audio duration metadata
-    return { segments, audioDuration };
+    return this.awaitJob(provider, job.transcriptId, context, startTime);
   }
 
   /**
-   * Poll transcription status until complete
+   * Wait for a started job and clear its pending entry once it has a final outcome
    */
-  private async pollForCompletion(transcriptId: string, apiInfo: ApiInfo): Promise<DiarizationSegment[]> {
-    const maxAttempts = 100;
-    let attempts = 0;
-    const pollUrl = `${this.apiUrl}/transcript/${transcriptId}`;
-    const pollStartTime = Date.now();
-    
-    // Update API info with poll request URL and start time
-    this.updateApiInfo({
-      ...apiInfo,
-      pollRequestUrl: pollUrl,
-      pollStartTime: pollStartTime,
-    });
+  private async awaitJob(
+    provider: DiarizationProvider,
+    transcriptId: string,
+    context: ProviderContext,
+    startTime: number,
+  ): Promise<TranscriptionResult> {
+    let result;
+    try {
+      result = await provider.waitForCompletion(transcriptId, context);
+    } catch (error) {
+      // A cancelled job should not be offered for resuming
+      if (context.signal?.aborted) {
+        PendingJobService.removePendingJob(transcriptId);
+        throw new TranscriptionCancelledError(transcriptId, provider.describe(context.options));
+      }
+      // Network errors and timeouts leave the job resumable; failed jobs are gone for good
+      if (error instanceof TranscriptionFailedError) {
+        PendingJobService.removePendingJob(transcriptId);
+      }
+      throw error;
+    }
+    PendingJobService.removePendingJob(transcriptId);
 
-    while (attempts < maxAttempts) {
-      try {
-        const pollUrl = `${this.apiUrl}/transcript/${transcriptId}`;
-        const pollStartTime = Date.now();
-        
-        if (attempts === 0 && this.requestCallback) {
-          this.requestCallback({
-            method: 'GET',
-            url: pollUrl,
-          });
-        }
+    context.apiInfo.totalProcessingTime = Date.now() - startTime;
+    this.updateApiInfo(context.apiInfo);
 
-        const response = await axios.get(
-          pollUrl,
-          {
-            headers: {
-              authorization: this.apiKey,
-            },
-          },
-        );
-
-        const pollResponseTime = Date.now() - pollStartTime;
-        const status = response.data.status;
-        
-        // Update API info with current status
-        apiInfo.transcriptStatus = status;
-        apiInfo.pollAttempts = attempts + 1;
-        this.updateApiInfo(apiInfo);
-        
-        // Only log on first attempt, completion, or error
-        if (attempts === 0 || status === 'completed' || status === 'error') {
-          if (this.requestCallback) {
-            this.requestCallback({
-              method: 'GET',
-              url: pollUrl,
-              status: response.status,
-              responseTime: pollResponseTime,
-              responseData: { 
-                status: status, 
-                utterances_count: response.data.utterances?.length || 0,
-                has_utterances: !!response.data.utterances,
-              },
-            });
-          }
-        }
+    return {
+      segments: result.segments,
+      words: result.words,
+      audioDuration: result.audioDuration,
+      provider: provider.describe(context.options),
+      transcriptionOptions: context.options,
+    };
+  }
 
-        if (status === 'completed') {
-          console.log('=== TRANSCRIPTION COMPLETED ===');
-          console.log('Full response data:', JSON.stringify(response.data, null, 2));
-          console.log('Response keys:', Object.keys(response.data));
-          
-          // AssemblyAI might return utterances or words array
-          let utterances = response.data.utterances || [];
-          
-          console.log('Utterances from response:', utterances);
-          console.log('Utterances type:', typeof utterances);
-          console.log('Utterances is array:', Array.isArray(utterances));
-          console.log('Utterances length:', utterances?.length);
-          
-          // If no utterances, check for words array (alternative format)
-          if (utterances.length === 0 && response.data.words) {
-            console.log('No utterances found, checking words array...');
-            console.log('Words array:', response.data.words);
-            // Group words by speaker if words array is available
-            utterances = this.groupWordsBySpeaker(response.data.words);
-            console.log('Grouped utterances from words:', utterances);
-          }
-          
-          // Also check if there's a transcript with speaker_labels
-          if (utterances.length === 0 && response.data.text) {
-            console.log('Found text but no utterances. Checking for alternative format...');
-            // Some responses might have speaker_labels in a different format
-            if (response.data.speaker_labels) {
-              console.log('Found speaker_labels:', response.data.speaker_labels);
-            }
-          }
-          
-          console.log('Final utterances array:', utterances);
-          console.log('Utterances count:', utterances.length);
-          
-          if (utterances.length === 0) {
-            console.error('=== NO UTTERANCES FOUND ===');
-            console.error('Available data:', {
-              hasUtterances: !!response.data.utterances,
-              utterancesLength: response.data.utterances?.length || 0,
-              hasWords: !!response.data.words,
-              wordsLength: response.data.words?.length || 0,
-              hasText: !!response.data.text,
-              textLength: response.data.text?.length || 0,
-              hasSpeakerLabels: !!response.data.speaker_labels,
-              responseKeys: Object.keys(response.data)
-            });
-            console.error('Full response for debugging:', response.data);
-            throw new Error('Transcription completed but no speech was detected. Please ensure the audio contains clear speech.');
-          }
-          
-          const segments = this.parseDiarizationSegments(utterances);
-          console.log('=== PARSED SEGMENTS ===', segments);
-          
-          // Get audio duration from API response (in milliseconds) or calculate from segments
-          const audioDurationMs = response.data.audio_duration 
-            ? response.data.audio_duration * 1000 // Convert seconds to ms
-            : segments.length > 0 
-              ? Math.max(...segments.map(s => s.end)) * 1000 // Max end time in ms
-              : 0;
-          
-          // Store audio duration in segments metadata (we'll return it separately)
-          (segments as any).audioDuration = audioDurationMs;
-          
-          return segments;
-        }
+  /**
+   * Fetch a finished job's result again from the provider that ran it
+   * (used to recompute stats for history items without re-uploading audio)
+   */
+  async refetchTranscript(providerInfo: ProviderInfo | undefined, transcriptId: string): Promise<TranscriptionResult> {
+    const provider = this.createProviderFor(providerInfo || LEGACY_PROVIDER);
+    if (!provider.fetchResult) {
+      throw new Error(`${provider.name} results cannot be fetched again. Only cloud transcripts can be recomputed.`);
+    }
+    if (provider.requiresApiKey && !provider.hasApiKey()) {
+      throw new Error(`API key not set. Please configure your ${provider.name} API key to re-fetch this transcript.`);
+    }
 
-        if (status === 'error') {
-          const errorMessage = response.data.error || response.data.status_text || 'Unknown error occurred';
-          console.error('Transcription error details:', response.data);
-          throw new Error(`Transcription failed: ${errorMessage}`);
-        }
+    const context: ProviderContext = {
+      apiInfo: { transcriptId },
+      updateApiInfo: (info) => this.updateApiInfo(info),
+      requestCallback: this.requestCallback,
+    };
+    const result = await provider.fetchResult(transcriptId, context);
+    return { segments: result.segments, words: result.words, audioDuration: result.audioDuration, provider: provider.describe() };
+  }
 
-        // Log progress for long transcriptions
-        if (attempts % 10 === 0) {
-          console.log(`Transcription in progress... (attempt ${attempts + 1}/${maxAttempts})`);
-        }
+  /**
+   * Whether the provider that ran a job can delete it remotely
+   */
+  canDeleteRemoteTranscript(providerInfo: ProviderInfo): boolean {
+    return !!this.createProviderFor(providerInfo).deleteJob;
+  }
 
-        // Wait 10 seconds before next poll
-        await new Promise(resolve => setTimeout(resolve, 10_000));
-        attempts++;
-      } catch (error: any) {
-        // If it's already a formatted error, rethrow it
-        if (error?.response?.data?.error || error?.message) {
-          throw error;
-        }
-        console.error('Error polling transcription:', error);
-        throw new Error(`Failed to check transcription status: ${error?.message || 'Unknown error'}`);
-      }
+  /**
+   * Delete a job (and its uploaded audio) from the provider that ran it
+   */
+  async deleteRemoteTranscript(providerInfo: ProviderInfo, transcriptId: string): Promise<void> {
+    const provider = this.createProviderFor(providerInfo);
+    if (!provider.deleteJob) {
+      return;
     }
-
-    throw new Error('Transcription timeout - the audio file may be too long or the service is taking longer than expected.');
+    await provider.deleteJob(transcriptId);
+    console.log(`🗑️ Deleted transcript ${transcriptId} from ${provider.name}`);
   }
 
   /**
-   * Parse API response into diarization segments
+   * Create a provider configured like the one that started a job
    */
-  private parseDiarizationSegments(utterances: any[]): DiarizationSegment[] {
-    console.log('Parsing diarization segments, utterances:', utterances);
-    
-    if (!Array.isArray(utterances) || utterances.length === 0) {
-      console.error('No utterances array or empty array received');
-      throw new Error('No utterances found in transcription response');
+  private createProviderFor(providerInfo: ProviderInfo): DiarizationProvider {
+    const provider = createProvider(providerInfo.id);
+    if (this.apiKey) {
+      provider.setApiKey(this.apiKey);
     }
-
-    const segments = utterances.map((utterance, index) => {
-      console.log(`Processing utterance ${index}:`, utterance);
-      
-      // AssemblyAI returns speaker as a string like "A", "B", etc. or as a number
-      const speakerLabel = utterance.speaker !== undefined && utterance.speaker !== null
-        ? `Speaker ${utterance.speaker}`
-        : 'Speaker Unknown';
-      
-      const segment = {
-        speaker: speakerLabel,
-        start: (utterance.start || 0) / 1000, // Convert ms to seconds
-        end: (utterance.end || 0) / 1000,
-        text: utterance.text || '', // Include transcript text
-      };
-      
-      console.log(`Created segment ${index}:`, segment);
-      return segment;
-    });
-
-    console.log('Parsed segments:', segments);
-    return segments;
+    // Talk to the same endpoint the job was started on
+    const jobApiUrl = providerInfo.config.apiUrl;
+    provider.setBaseUrl?.(typeof jobApiUrl === 'string' ? jobApiUrl : this.baseUrl);
+    provider.setPollingStrategy?.(this.pollingStrategy);
+    return provider;
   }
 
   /**
    * Calculate speaker statistics from diarization segments
    * Returns speakers array and total audio duration
    */
-  calculateSpeakerStats(segments: DiarizationSegment[], totalAudioDuration?: number): { speakers: Speaker[]; totalDuration: number } {
+  calculateSpeakerStats(
+    segments: DiarizationSegment[],
+    totalAudioDuration?: number,
+    options: Partial<StatsOptions> = {},
+  ): { speakers: Speaker[]; totalDuration: number } {
+    const { minPhraseLength, percentageBasis } = { ...DEFAULT_STATS_OPTIONS, ...options };
     console.log('Calculating speaker stats from segments:', segments);
     
-    const speakerMap = new Map<string, { time: number; texts: string[] }>();
+    const speakerMap = new Map<string, { texts: string[]; timings: PhraseTiming[] }>();
 
-    // Calculate total speaking time per speaker and collect speech examples
+    // Collect speech examples per speaker (speaking time comes from the activity below)
     segments.forEach((segment, index) => {
       const duration = (segment.end - segment.start) * 1000; // Convert to ms
-      const current = speakerMap.get(segment.speaker) || { time: 0, texts: [] };
+      const current = speakerMap.get(segment.speaker) || { texts: [], timings: [] };
       
       console.log(`Segment ${index}: speaker=${segment.speaker}, duration=${duration}ms, text length=${segment.text?.length || 0}`);
       
-      // Add text if available and meaningful (not empty, at least 10 chars)
-      if (segment.text && segment.text.trim().length >= 10) {
+      // Add text if available and meaningful (not empty, at least minPhraseLength chars)
+      if (segment.text && segment.text.trim().length >= minPhraseLength) {
         current.texts.push(segment.text.trim());
+        current.timings.push({ start: segment.start, end: segment.end });
       }
       
       speakerMap.set(segment.speaker, {
-        time: current.time + duration,
         texts: current.texts,
+        timings: current.timings,
       });
     });
 
     console.log('Speaker map:', Array.from(speakerMap.entries()));
 
-    // Calculate total speaking time (sum of all detected speech)
-    const totalSpeakingTime = Array.from(speakerMap.values()).reduce(
-      (sum, data) => sum + data.time,
-      0,
-    );
+    // Overlapping speech is split between the simultaneous speakers, so it is not counted twice
+    const activity = computeSpeakerActivity(segments);
+
+    // Calculate total speaking time (all detected speech, overlaps counted once)
+    const totalSpeakingTime = activity.totalSpeechTime;
 
     // Calculate total audio duration:
     // 1. Use provided totalAudioDuration if available
@@ -710,19 +626,25 @@ export class SpeakerDiarizationService {
         const allPhrases = data.texts;
         
         // Calculate percentage based on total audio duration (including silence)
-        const percentage = calculatedTotalDuration > 0 
-          ? (data.time / calculatedTotalDuration) * 100 
+        // or on speaking time only
+        const attributedTime = activity.attributedTime.get(label) || 0;
+        const basisDuration = percentageBasis === 'speech' ? totalSpeakingTime : calculatedTotalDuration;
+        const percentage = basisDuration > 0 
+          ? (attributedTime / basisDuration) * 100 
           : 0;
         
-        console.log(`Speaker ${label}: speakingTime=${data.time}ms, totalDuration=${calculatedTotalDuration}ms, percentage=${percentage}%, phrases=${allPhrases.length}`);
+        console.log(`Speaker ${label}: speakingTime=${attributedTime}ms, totalDuration=${calculatedTotalDuration}ms, percentage=${percentage}%, phrases=${allPhrases.length}`);
         
         return {
           id: `speaker-${index}`,
           label,
-          speakingTime: data.time,
+          speakingTime: attributedTime,
           percentage: percentage,
           speechExamples,
           allPhrases, // All phrases for this speaker
+          phraseTimings: data.timings,
+          sourceLabel: label,
+          overlapTime: activity.overlapTime.get(label) || 0,
         };
       },
     );
@@ -737,45 +659,16 @@ export class SpeakerDiarizationService {
   }
 
   /**
-   * Group words array into utterances by speaker (fallback if utterances not available)
+   * Keep user-given speaker names when stats are recomputed
+   * Speakers are matched by provider label; older items without one are matched by ID
    */
-  private groupWordsBySpeaker(words: any[]): any[] {
-    if (!Array.isArray(words) || words.length === 0) {
-      return [];
-    }
-
-    const utterances: any[] = [];
-    let currentUtterance: any = null;
-
-    words.forEach((word) => {
-      if (!word.speaker && word.speaker !== 'A' && word.speaker !== 'B') {
-        return; // Skip words without speaker
-      }
-
-      // Start new utterance if speaker changed or no current utterance
-      if (!currentUtterance || currentUtterance.speaker !== word.speaker) {
-        if (currentUtterance) {
-          utterances.push(currentUtterance);
-        }
-        currentUtterance = {
-          speaker: word.speaker,
-          start: word.start,
-          end: word.end,
-          text: word.text || '',
-        };
-      } else {
-        // Extend current utterance
-        currentUtterance.end = word.end;
-        currentUtterance.text += (currentUtterance.text ? ' ' : '') + (word.text || '');
-      }
+  carryOverSpeakerLabels(previousSpeakers: Speaker[], speakers: Speaker[]): Speaker[] {
+    return speakers.map(speaker => {
+      const previous = previousSpeakers.find(item => item.sourceLabel
+        ? item.sourceLabel === speaker.sourceLabel
+        : item.id === speaker.id);
+      return previous ? { ...speaker, label: previous.label } : speaker;
     });
-
-    // Add last utterance
-    if (currentUtterance) {
-      utterances.push(currentUtterance);
-    }
-
-    return utterances;
   }
 
   /**
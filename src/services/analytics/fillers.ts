@@ -0,0 +1,153 @@
+import { DiarizationSegment, FillerKind, FillerLexicons, FillerTermCount, Speaker, SpeakerFillerStats } from '../../types';
+
+/**
+ * Built-in lexicons; users can edit them (see getFillerLexicons in config)
+ */
+export const DEFAULT_FILLER_LEXICONS: FillerLexicons = {
+  en: {
+    fillers: ['um', 'uh', 'erm', 'hmm', 'like', 'you know', 'I mean', 'basically', 'actually', 'literally', 'sort of', 'kind of'],
+    hedges: ['I think', 'I guess', 'I feel like', 'maybe', 'perhaps', 'probably', 'possibly', 'it seems', 'not sure', 'just', 'a little bit'],
+  },
+  uk: {
+    fillers: ['ну', 'е', 'ем', 'типу', 'як би', 'коротше', 'значить', 'ось', 'от', 'так би мовити', 'власне', 'загалом'],
+    hedges: ['мені здається', 'я думаю', 'можливо', 'напевно', 'мабуть', 'ніби', 'наче', 'трохи', 'не впевнений', 'не впевнена', 'певно'],
+  },
+};
+
+export const LANGUAGE_NAMES: Record<string, string> = {
+  en: 'English',
+  uk: 'Українська',
+};
+
+export interface LexiconMatch {
+  start: number; // Character offsets in the phrase
+  end: number;
+  term: string;
+  kind: FillerKind;
+  language: string;
+}
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const SCRIPTS = ['Latin', 'Cyrillic', 'Greek', 'Armenian', 'Georgian', 'Hebrew', 'Arabic', 'Devanagari', 'Thai', 'Hangul', 'Hiragana', 'Katakana', 'Han'];
+const SCRIPT_PATTERNS = SCRIPTS.map(script => ({ script, regex: new RegExp(`\\p{Script=${script}}`, 'gu') }));
+
+/**
+ * The writing system most letters of a text are in, or undefined if it has no letters in a known one
+ */
+const detectScript = (text: string): string | undefined => {
+  let best: { script: string; count: number } | undefined;
+  SCRIPT_PATTERNS.forEach(({ script, regex }) => {
+    const count = (text.match(regex) || []).length;
+    if (count > 0 && (!best || count > best.count)) {
+      best = { script, count };
+    }
+  });
+  return best?.script;
+};
+
+/**
+ * Pick the lexicons for a phrase by its script, so mixed English/Ukrainian meetings
+ * (with language detection on) are counted against the right word lists.
+ * A lexicon's script comes from its own terms; lexicons whose script can't be told apply to every phrase.
+ */
+export function detectPhraseLanguages(text: string, lexicons: FillerLexicons): string[] {
+  const phraseScript = detectScript(text);
+  return Object.entries(lexicons)
+    .filter(([, lexicon]) => {
+      const lexiconScript = detectScript([...lexicon.fillers, ...lexicon.hedges].join(' '));
+      return !phraseScript || !lexiconScript || lexiconScript === phraseScript;
+    })
+    .map(([language]) => language);
+}
+
+/**
+ * Find lexicon terms in a phrase as whole words; longer terms win where they overlap
+ * ("you know" over "know", "I feel like" over "like")
+ */
+export function findLexiconMatches(text: string, lexicons: FillerLexicons): LexiconMatch[] {
+  const terms = detectPhraseLanguages(text, lexicons)
+    .flatMap(language => [
+      ...lexicons[language].fillers.map(term => ({ term, kind: 'filler' as const, language })),
+      ...lexicons[language].hedges.map(term => ({ term, kind: 'hedge' as const, language })),
+    ])
+    .filter(item => item.term.trim())
+    .sort((a, b) => b.term.length - a.term.length);
+
+  const matches: LexiconMatch[] = [];
+  terms.forEach(({ term, kind, language }) => {
+    const pattern = term.trim().split(/\s+/).map(escapeRegExp).join('\\s+');
+    const regex = new RegExp(`(?<![\\p{L}\\p{N}'’])${pattern}(?![\\p{L}\\p{N}'’])`, 'giu');
+    for (const match of text.matchAll(regex)) {
+      const start = match.index ?? 0;
+      const end = start + match[0].length;
+      if (!matches.some(other => start < other.end && end > other.start)) {
+        matches.push({ start, end, term: term.trim(), kind, language });
+      }
+    }
+  });
+  return matches.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Split a phrase into plain and matched parts for highlighting
+ */
+export function splitByLexicon(text: string, lexicons: FillerLexicons): { text: string; kind?: FillerKind }[] {
+  const parts: { text: string; kind?: FillerKind }[] = [];
+  let position = 0;
+  findLexiconMatches(text, lexicons).forEach(match => {
+    if (match.start > position) {
+      parts.push({ text: text.slice(position, match.start) });
+    }
+    parts.push({ text: text.slice(match.start, match.end), kind: match.kind });
+    position = match.end;
+  });
+  if (position < text.length) {
+    parts.push({ text: text.slice(position) });
+  }
+  return parts;
+}
+
+/**
+ * Count fillers and hedges in everything each speaker said, per minute of their speaking time.
+ * Segments are used rather than allPhrases, which leaves out short utterances such as "Um."
+ * (results without segment text fall back to allPhrases).
+ */
+export function analyzeFillers(speakers: Speaker[], segments: DiarizationSegment[], lexicons: FillerLexicons): SpeakerFillerStats[] {
+  const textsBySpeaker = new Map<string, string[]>();
+  segments.forEach(segment => {
+    const text = segment.text?.trim();
+    if (text) {
+      textsBySpeaker.set(segment.speaker, [...(textsBySpeaker.get(segment.speaker) || []), text]);
+    }
+  });
+
+  return speakers.map(speaker => {
+    const terms = new Map<string, FillerTermCount>();
+    const phrases = textsBySpeaker.size > 0
+      ? textsBySpeaker.get(speaker.sourceLabel || speaker.label) || []
+      : speaker.allPhrases || [];
+    phrases.forEach(phrase => {
+      findLexiconMatches(phrase, lexicons).forEach(match => {
+        const key = `${match.language}\u0000${match.kind}\u0000${match.term.toLowerCase()}`;
+        const current = terms.get(key) || { term: match.term, kind: match.kind, language: match.language, count: 0 };
+        current.count++;
+        terms.set(key, current);
+      });
+    });
+
+    const termList = Array.from(terms.values()).sort((a, b) => b.count - a.count);
+    const fillerCount = termList.filter(item => item.kind === 'filler').reduce((sum, item) => sum + item.count, 0);
+    const hedgeCount = termList.filter(item => item.kind === 'hedge').reduce((sum, item) => sum + item.count, 0);
+    const minutes = speaker.speakingTime / 60_000;
+
+    return {
+      speakerId: speaker.id,
+      fillerCount,
+      hedgeCount,
+      fillersPerMinute: minutes > 0 ? fillerCount / minutes : 0,
+      hedgesPerMinute: minutes > 0 ? hedgeCount / minutes : 0,
+      terms: termList,
+    };
+  });
+}
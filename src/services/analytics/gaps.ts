@@ -0,0 +1,69 @@
+import { DiarizationSegment, GapStats, SpeakerLatencyStats } from '../../types';
+import { buildTurns } from './turnTaking';
+import { mean, median } from './utils';
+
+/**
+ * Break silence down into lead-in/tail, pauses within a speaker and gaps between speakers,
+ * and measure how quickly each speaker responds after someone else stops
+ */
+export function analyzeGaps(segments: DiarizationSegment[], totalDuration: number): GapStats {
+  const ordered = [...segments].sort((a, b) => a.start - b.start);
+  let intraSpeakerPauses = 0;
+  let interSpeakerGaps = 0;
+  let pauseCount = 0;
+  let gapCount = 0;
+
+  // Walk the timeline; a silent stretch belongs to whoever spoke last before it and first after it
+  let speechEnd = ordered.length > 0 ? ordered[0].end : 0;
+  let lastSpeaker = ordered.length > 0 ? ordered[0].speaker : '';
+  ordered.slice(1).forEach(segment => {
+    if (segment.start > speechEnd) {
+      const gap = (segment.start - speechEnd) * 1000;
+      if (segment.speaker === lastSpeaker) {
+        intraSpeakerPauses += gap;
+        pauseCount++;
+      } else {
+        interSpeakerGaps += gap;
+        gapCount++;
+      }
+    }
+    if (segment.end >= speechEnd) {
+      speechEnd = segment.end;
+      lastSpeaker = segment.speaker;
+    }
+  });
+
+  const leadIn = ordered.length > 0 ? ordered[0].start * 1000 : 0;
+  const lastEnd = ordered.length > 0 ? Math.max(...ordered.map(segment => segment.end)) * 1000 : 0;
+  const tail = Math.max(totalDuration - lastEnd, 0);
+
+  // Response latency: time from the end of one speaker's turn to the start of the next speaker's turn
+  // (starting before the other finished counts as an immediate response)
+  const turns = buildTurns(segments);
+  const latencies = new Map<string, number[]>();
+  for (let i = 1; i < turns.length; i++) {
+    const latency = Math.max(turns[i].start - turns[i - 1].end, 0) * 1000;
+    latencies.set(turns[i].speaker, [...(latencies.get(turns[i].speaker) || []), latency]);
+  }
+  const speakers: SpeakerLatencyStats[] = Array.from(latencies.entries())
+    .map(([speaker, values]) => ({
+      speaker,
+      responses: values.length,
+      meanLatency: mean(values),
+      medianLatency: median(values),
+    }))
+    .sort((a, b) => a.medianLatency - b.medianLatency);
+
+  return {
+    silence: {
+      leadIn,
+      tail,
+      intraSpeakerPauses,
+      interSpeakerGaps,
+      total: leadIn + tail + intraSpeakerPauses + interSpeakerGaps,
+    },
+    pauseCount,
+    gapCount,
+    speakers,
+  };
+}
@@ -0,0 +1,42 @@
+import { DiarizationSegment, MeetingAnalytics, TranscriptWord } from '../../types';
+import { analyzeGaps } from './gaps';
+import { analyzeOverlap } from './overlap';
+import { analyzeQuestions } from './questions';
+import { analyzeSpeakingRate } from './speakingRate';
+import { analyzeTurnTaking } from './turnTaking';
+
+export { buildTurns } from './turnTaking';
+export type { Turn } from './turnTaking';
+export { computeSpeakerActivity } from './overlap';
+export { buildTimelineBuckets } from './timeline';
+export { summarizeSpeakingTime } from './summary';
+export {
+  computeParityScore,
+  DEFAULT_PARITY_SETTINGS,
+  MEETING_TYPES,
+  PARITY_METRICS,
+} from './parity';
+export { analyzeFillers, DEFAULT_FILLER_LEXICONS, LANGUAGE_NAMES, splitByLexicon } from './fillers';
+
+export interface AnalyticsInput {
+  segments: DiarizationSegment[];
+  words?: TranscriptWord[];
+  totalDuration: number; // in milliseconds
+}
+
+/**
+ * Compute all meeting analytics from the raw diarization output
+ * Returns undefined when there are no segments (e.g. older history items)
+ */
+export function computeMeetingAnalytics(input: AnalyticsInput): MeetingAnalytics | undefined {
+  if (input.segments.length === 0) {
+    return undefined;
+  }
+  return {
+    turnTaking: analyzeTurnTaking(input.segments),
+    overlap: analyzeOverlap(input.segments, input.words),
+    gaps: analyzeGaps(input.segments, input.totalDuration),
+    speakingRate: analyzeSpeakingRate(input.segments, input.words, input.totalDuration),
+    questions: analyzeQuestions(input.segments),
+  };
+}
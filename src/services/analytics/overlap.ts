@@ -0,0 +1,143 @@
+import { DiarizationSegment, InterruptionStats, OverlapStats, SpeakerOverlapStats, TranscriptWord } from '../../types';
+
+// Gaps up to this long within one speaker's speech are treated as continuous (seconds)
+const MERGE_GAP_SECONDS = 0.5;
+// Overlaps shorter than this are boundary jitter, not interruptions (seconds)
+const MIN_INTERRUPTION_OVERLAP_SECONDS = 0.2;
+
+interface TimedInterval {
+  speaker: string;
+  start: number; // in seconds
+  end: number; // in seconds
+}
+
+export interface SpeakerActivity {
+  attributedTime: Map<string, number>; // in ms, overlapped time split evenly between the speakers
+  overlapTime: Map<string, number>; // in ms, time spent talking while someone else talks
+  totalOverlapTime: number; // in ms, time with two or more speakers at once
+  totalSpeechTime: number; // in ms, time with at least one speaker (overlaps counted once)
+}
+
+/**
+ * Union each speaker's intervals, joining gaps up to maxGap seconds
+ */
+export function mergeSpeakerIntervals(intervals: TimedInterval[], maxGap: number = 0): Map<string, TimedInterval[]> {
+  const bySpeaker = new Map<string, TimedInterval[]>();
+  [...intervals]
+    .filter(interval => interval.end > interval.start)
+    .sort((a, b) => a.start - b.start)
+    .forEach(interval => {
+      const runs = bySpeaker.get(interval.speaker) || [];
+      const last = runs[runs.length - 1];
+      if (last && interval.start - last.end <= maxGap) {
+        last.end = Math.max(last.end, interval.end);
+      } else {
+        runs.push({ ...interval });
+      }
+      bySpeaker.set(interval.speaker, runs);
+    });
+  return bySpeaker;
+}
+
+/**
+ * Sweep over all speakers' activity and attribute every moment exactly once:
+ * when k speakers talk at the same time, each of them gets 1/k of that time
+ */
+export function computeSpeakerActivity(intervals: TimedInterval[]): SpeakerActivity {
+  const runsBySpeaker = mergeSpeakerIntervals(intervals);
+  const events: { time: number; speaker: string; delta: 1 | -1 }[] = [];
+  runsBySpeaker.forEach(runs => runs.forEach(run => {
+    events.push({ time: run.start, speaker: run.speaker, delta: 1 });
+    events.push({ time: run.end, speaker: run.speaker, delta: -1 });
+  }));
+  // Process ends before starts at the same time so touching turns don't overlap
+  events.sort((a, b) => a.time - b.time || a.delta - b.delta);
+
+  const attributedTime = new Map<string, number>();
+  const overlapTime = new Map<string, number>();
+  const active = new Set<string>();
+  let totalOverlapTime = 0;
+  let totalSpeechTime = 0;
+  let previousTime = events.length > 0 ? events[0].time : 0;
+
+  events.forEach(event => {
+    const elapsed = (event.time - previousTime) * 1000;
+    if (elapsed > 0 && active.size > 0) {
+      totalSpeechTime += elapsed;
+      active.forEach(speaker => {
+        attributedTime.set(speaker, (attributedTime.get(speaker) || 0) + elapsed / active.size);
+        if (active.size > 1) {
+          overlapTime.set(speaker, (overlapTime.get(speaker) || 0) + elapsed);
+        }
+      });
+      if (active.size > 1) {
+        totalOverlapTime += elapsed;
+      }
+    }
+    previousTime = event.time;
+    if (event.delta === 1) {
+      active.add(event.speaker);
+    } else {
+      active.delete(event.speaker);
+    }
+  });
+
+  return { attributedTime, overlapTime, totalOverlapTime, totalSpeechTime };
+}
+
+/**
+ * Detect overlapping speech and who interrupts whom.
+ * Word timings are used when they carry speakers (more precise), segments otherwise.
+ */
+export function analyzeOverlap(segments: DiarizationSegment[], words?: TranscriptWord[]): OverlapStats {
+  const speakerWords = (words || []).filter((word): word is TranscriptWord & { speaker: string } => !!word.speaker);
+  const source = speakerWords.length > 0 ? 'words' : 'segments';
+  const intervals: TimedInterval[] = source === 'words'
+    ? speakerWords.map(word => ({ speaker: word.speaker, start: word.start, end: word.end }))
+    : segments;
+
+  const activity = computeSpeakerActivity(intervals);
+
+  // Speech runs per speaker; a run starting inside another speaker's run is an interruption
+  const runs = Array.from(mergeSpeakerIntervals(intervals, MERGE_GAP_SECONDS).values())
+    .flat()
+    .sort((a, b) => a.start - b.start);
+  const interruptions = new Map<string, InterruptionStats>();
+  let overlapCount = 0;
+
+  runs.forEach((run, index) => {
+    for (let i = 0; i < index; i++) {
+      const other = runs[i];
+      if (other.speaker === run.speaker || other.end <= run.start || other.start >= run.start) continue;
+      const overlap = Math.min(other.end, run.end) - run.start;
+      if (overlap < MIN_INTERRUPTION_OVERLAP_SECONDS) continue;
+      overlapCount++;
+      const key = `${run.speaker}\u0000${other.speaker}`;
+      const current = interruptions.get(key) || { interrupter: run.speaker, interrupted: other.speaker, count: 0, overlapTime: 0 };
+      current.count++;
+      current.overlapTime += overlap * 1000;
+      interruptions.set(key, current);
+    }
+  });
+
+  const speakerIds = new Set(intervals.map(interval => interval.speaker));
+  const interruptionList = Array.from(interruptions.values()).sort((a, b) => b.count - a.count);
+  const speakers: SpeakerOverlapStats[] = Array.from(speakerIds).map(speaker => ({
+    speaker,
+    overlapTime: activity.overlapTime.get(speaker) || 0,
+    interruptionsMade: interruptionList
+      .filter(item => item.interrupter === speaker)
+      .reduce((sum, item) => sum + item.count, 0),
+    interruptionsReceived: interruptionList
+      .filter(item => item.interrupted === speaker)
+      .reduce((sum, item) => sum + item.count, 0),
+  }));
+
+  return {
+    source,
+    totalOverlapTime: activity.totalOverlapTime,
+    overlapCount,
+    speakers,
+    interruptions: interruptionList,
+  };
+}
@@ -0,0 +1,111 @@
+import { MeetingTypeId, ParityMetric, ParityScore, ParitySettings, ParityVerdict, Speaker } from '../../types';
+
+export const MEETING_TYPES: { id: MeetingTypeId; name: string }[] = [
+  { id: 'discussion', name: 'Team discussion' },
+  { id: 'standup', name: 'Stand-up' },
+  { id: 'brainstorm', name: 'Brainstorm' },
+  { id: 'one-on-one', name: 'One-on-one' },
+  { id: 'interview', name: 'Interview' },
+  { id: 'presentation', name: 'Presentation / demo' },
+];
+
+export const PARITY_METRICS: { id: ParityMetric; name: string; description: string }[] = [
+  { id: 'gini', name: 'Gini coefficient', description: '0 = everyone spoke equally, 1 = one person spoke (normalized for the number of speakers)' },
+  { id: 'entropy', name: 'Normalized entropy', description: '1 = perfectly even, 0 = one person spoke' },
+  { id: 'ratio', name: 'Max/min ratio', description: 'Most talkative speaker\'s time divided by the least talkative one\'s' },
+];
+
+/**
+ * Default target scores (0-100) per meeting type; presentations and interviews are expected to be lopsided
+ */
+export const DEFAULT_PARITY_SETTINGS: ParitySettings = {
+  metric: 'gini',
+  meetingType: 'discussion',
+  targets: {
+    discussion: 75,
+    standup: 80,
+    brainstorm: 70,
+    'one-on-one': 70,
+    interview: 40,
+    presentation: 20,
+  },
+};
+
+// Below target but within this fraction of it is "uneven" rather than "dominated"
+const UNEVEN_TOLERANCE = 0.8;
+
+const computeGini = (times: number[]): number => {
+  const total = times.reduce((sum, time) => sum + time, 0);
+  if (total === 0) return 0;
+  let differences = 0;
+  times.forEach(a => times.forEach(b => {
+    differences += Math.abs(a - b);
+  }));
+  const gini = differences / (2 * times.length * total);
+  // The largest possible Gini for n values is (n - 1) / n; rescale so one dominant speaker is always 1
+  return gini / ((times.length - 1) / times.length);
+};
+
+const computeEntropy = (times: number[]): number => {
+  const total = times.reduce((sum, time) => sum + time, 0);
+  if (total === 0) return 1;
+  const entropy = times
+    .filter(time => time > 0)
+    .reduce((sum, time) => sum - (time / total) * Math.log(time / total), 0);
+  return entropy / Math.log(times.length);
+};
+
+const computeRatio = (times: number[]): number => {
+  const min = Math.min(...times);
+  return min > 0 ? Math.max(...times) / min : Infinity;
+};
+
+/**
+ * The metric value and its 0-100 score, where 100 means perfectly balanced
+ */
+export function computeParityMetric(times: number[], metric: ParityMetric): { value: number; score: number } {
+  switch (metric) {
+    case 'entropy': {
+      const value = computeEntropy(times);
+      return { value, score: value * 100 };
+    }
+    case 'ratio': {
+      const value = computeRatio(times);
+      return { value, score: Number.isFinite(value) ? 100 / value : 0 };
+    }
+    default: {
+      const value = computeGini(times);
+      return { value, score: (1 - value) * 100 };
+    }
+  }
+}
+
+export function getParityVerdict(score: number, target: number): ParityVerdict {
+  if (score >= target) return 'balanced';
+  if (score >= target * UNEVEN_TOLERANCE) return 'uneven';
+  return 'dominated';
+}
+
+/**
+ * Balance of speaking time between speakers, judged against the target for the meeting type.
+ * Returns undefined for fewer than two speakers.
+ */
+export function computeParityScore(
+  speakers: Speaker[],
+  settings: ParitySettings,
+  meetingType: MeetingTypeId = settings.meetingType
+): ParityScore | undefined {
+  if (speakers.length < 2) {
+    return undefined;
+  }
+  const { value, score } = computeParityMetric(speakers.map(speaker => speaker.speakingTime), settings.metric);
+  const target = settings.targets[meetingType] ?? DEFAULT_PARITY_SETTINGS.targets[meetingType] ?? 0;
+  return {
+    metric: settings.metric,
+    value: Number.isFinite(value) ? value : null,
+    score: Math.round(score),
+    meetingType,
+    target,
+    verdict: getParityVerdict(score, target),
+  };
+}
@@ -0,0 +1,72 @@
+import { DiarizationSegment, QuestionStats, SpeakerQuestionStats } from '../../types';
+
+// The next speaker must start within this long after the question to count as answering it (seconds)
+const ANSWER_WINDOW_SECONDS = 10;
+
+// Sentence openers that make a question even without a question mark (English and Ukrainian)
+const INTERROGATIVE_OPENERS = [
+  'who', 'whom', 'whose', 'what', 'when', 'where', 'why', 'how', 'which',
+  'do', 'does', 'did', 'is', 'are', 'was', 'were', 'can', 'could', 'would', 'should', 'will', 'shall',
+  'have', 'has', 'may', 'might', 'any', 'anyone', 'anybody', 'right',
+  'хто', 'що', 'коли', 'де', 'чому', 'навіщо', 'як', 'який', 'яка', 'яке', 'які', 'чий', 'чия', 'чиє',
+  'чи', 'скільки', 'куди', 'звідки', 'хіба', 'невже',
+];
+
+/**
+ * A segment is a question when one of its sentences ends with a question mark,
+ * or (for unpunctuated text) starts with an interrogative word and has no closing period
+ */
+export function isQuestion(text: string): boolean {
+  const sentences = text.match(/[^.!?…]+[.!?…]*/g) || [];
+  return sentences.some(sentence => {
+    const trimmed = sentence.trim();
+    if (trimmed.endsWith('?')) return true;
+    if (/[.!…]$/.test(trimmed)) return false;
+    const firstWord = trimmed.toLowerCase().match(/^[\p{L}']+/u)?.[0];
+    return !!firstWord && INTERROGATIVE_OPENERS.includes(firstWord);
+  });
+}
+
+/**
+ * Questions asked per speaker and whether the next turn by another speaker answered them.
+ * Returns undefined when the segments have no text.
+ */
+export function analyzeQuestions(segments: DiarizationSegment[]): QuestionStats | undefined {
+  if (!segments.some(segment => segment.text?.trim())) {
+    return undefined;
+  }
+
+  const ordered = [...segments].sort((a, b) => a.start - b.start);
+  const stats = new Map<string, SpeakerQuestionStats>();
+  const getStats = (speaker: string) => {
+    const current = stats.get(speaker) || { speaker, asked: 0, answered: 0, unanswered: 0, answersGiven: 0 };
+    stats.set(speaker, current);
+    return current;
+  };
+  ordered.forEach(segment => getStats(segment.speaker));
+
+  let totalQuestions = 0;
+  let answeredCount = 0;
+  ordered.forEach((segment, index) => {
+    if (!segment.text || !isQuestion(segment.text)) return;
+    totalQuestions++;
+    const asker = getStats(segment.speaker);
+    asker.asked++;
+
+    // The asker may keep talking; the question is answered by the next turn only if it follows soon enough
+    const next = ordered.slice(index + 1).find(other => other.speaker !== segment.speaker);
+    if (next && next.start - segment.end <= ANSWER_WINDOW_SECONDS) {
+      asker.answered++;
+      getStats(next.speaker).answersGiven++;
+      answeredCount++;
+    } else {
+      asker.unanswered++;
+    }
+  });
+
+  return {
+    totalQuestions,
+    answeredCount,
+    speakers: Array.from(stats.values()).sort((a, b) => b.asked - a.asked),
+  };
+}
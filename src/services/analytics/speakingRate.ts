@@ -0,0 +1,91 @@
+import { DiarizationSegment, SpeakerRateStats, SpeakingRateStats, TranscriptWord } from '../../types';
+import { computeSpeakerActivity, mergeSpeakerIntervals } from './overlap';
+
+// The rate-over-time series has about this many points
+const RATE_BUCKETS = 20;
+// ...but a point never covers less than this (ms)
+const MIN_BUCKET_DURATION = 30_000;
+// A speaker needs this much speech inside a point for its rate to mean anything (ms)
+const MIN_BUCKET_SPEECH = 3_000;
+
+interface TimedWords {
+  speaker: string;
+  start: number; // in seconds
+  end: number; // in seconds
+  count: number;
+}
+
+const countWords = (text: string): number => text.split(/\s+/).filter(token => /[\p{L}\p{N}]/u.test(token)).length;
+
+const overlapMs = (start: number, end: number, from: number, to: number): number =>
+  Math.max(Math.min(end, to) - Math.max(start, from), 0) * 1000;
+
+/**
+ * Word counts, share of words versus share of time and speaking rate (WPM) per speaker.
+ * Words with speakers are counted when available, segment text otherwise.
+ * Returns undefined when there is no text (e.g. on-device diarization).
+ */
+export function analyzeSpeakingRate(
+  segments: DiarizationSegment[],
+  words: TranscriptWord[] | undefined,
+  totalDuration: number
+): SpeakingRateStats | undefined {
+  const speakerWords = (words || []).filter((word): word is TranscriptWord & { speaker: string } => !!word.speaker);
+  const source = speakerWords.length > 0 ? 'words' : 'segments';
+  const timedWords: TimedWords[] = source === 'words'
+    ? speakerWords.map(word => ({ speaker: word.speaker, start: word.start, end: word.end, count: 1 }))
+    : segments.map(segment => ({ ...segment, count: countWords(segment.text || '') }));
+
+  const totalWords = timedWords.reduce((sum, item) => sum + item.count, 0);
+  if (totalWords === 0) {
+    return undefined;
+  }
+
+  const activity = computeSpeakerActivity(segments);
+  const totalAttributedTime = Array.from(activity.attributedTime.values()).reduce((sum, time) => sum + time, 0);
+  const runsBySpeaker = mergeSpeakerIntervals(segments);
+
+  const bucketDuration = Math.max(totalDuration / RATE_BUCKETS, MIN_BUCKET_DURATION);
+  const bucketCount = Math.max(Math.ceil(totalDuration / bucketDuration), 1);
+
+  const speakers: SpeakerRateStats[] = Array.from(runsBySpeaker.entries()).map(([speaker, runs]) => {
+    const ownWords = timedWords.filter(item => item.speaker === speaker);
+    const wordCount = ownWords.reduce((sum, item) => sum + item.count, 0);
+    const speakingTime = runs.reduce((sum, run) => sum + (run.end - run.start) * 1000, 0);
+
+    const rateOverTime = Array.from({ length: bucketCount }, (_, bucket) => {
+      const from = (bucket * bucketDuration) / 1000;
+      const to = ((bucket + 1) * bucketDuration) / 1000;
+      const bucketSpeech = runs.reduce((sum, run) => sum + overlapMs(run.start, run.end, from, to), 0);
+      if (bucketSpeech < MIN_BUCKET_SPEECH) {
+        return null;
+      }
+      // Single words belong to the point containing their midpoint; segment text is spread evenly over the segment
+      const bucketWords = ownWords.reduce((sum, item) => {
+        if (source === 'words') {
+          const midpoint = (item.start + item.end) / 2;
+          return midpoint >= from && midpoint < to ? sum + item.count : sum;
+        }
+        const duration = (item.end - item.start) * 1000;
+        return duration > 0 ? sum + (item.count * overlapMs(item.start, item.end, from, to)) / duration : sum;
+      }, 0);
+      return bucketWords / (bucketSpeech / 60_000);
+    });
+
+    return {
+      speaker,
+      wordCount,
+      wordShare: (wordCount / totalWords) * 100,
+      timeShare: totalAttributedTime > 0 ? ((activity.attributedTime.get(speaker) || 0) / totalAttributedTime) * 100 : 0,
+      wordsPerMinute: speakingTime > 0 ? wordCount / (speakingTime / 60_000) : 0,
+      rateOverTime,
+    };
+  });
+
+  return {
+    source,
+    totalWords,
+    bucketDuration,
+    speakers: speakers.sort((a, b) => b.wordCount - a.wordCount),
+  };
+}
@@ -0,0 +1,25 @@
+import { SilenceBreakdown, Speaker, SpeakingTimeSummary } from '../../types';
+
+/**
+ * Speaking time, silence and per-speaker shares as shown in the stats view and in exported reports
+ * (the gap analysis measures silence from the timeline; older results fall back to the remainder)
+ */
+export function summarizeSpeakingTime(
+  speakers: Speaker[],
+  totalDuration: number,
+  silence?: SilenceBreakdown
+): SpeakingTimeSummary {
+  const totalSpeakingTime = speakers.reduce((sum, speaker) => sum + speaker.speakingTime, 0);
+  const silenceTime = silence ? silence.total : totalDuration - totalSpeakingTime;
+  return {
+    totalDuration,
+    totalSpeakingTime,
+    silenceTime,
+    silencePercentage: totalDuration > 0 ? (silenceTime / totalDuration) * 100 : 0,
+    speakers: speakers.map(speaker => ({
+      speaker,
+      percentageWithSilence: speaker.percentage,
+      percentageWithoutSilence: totalSpeakingTime > 0 ? (speaker.speakingTime / totalSpeakingTime) * 100 : 0,
+    })),
+  };
+}
@@ -0,0 +1,32 @@
+import { DiarizationSegment, TimelineBucket } from '../../types';
+import { computeSpeakerActivity } from './overlap';
+
+/**
+ * Slice the meeting into fixed-length buckets (one minute by default) with each speaker's time in it
+ */
+export function buildTimelineBuckets(
+  segments: DiarizationSegment[],
+  totalDuration: number,
+  bucketDuration: number = 60_000
+): TimelineBucket[] {
+  const lastEnd = segments.reduce((max, segment) => Math.max(max, segment.end * 1000), 0);
+  const duration = Math.max(totalDuration, lastEnd);
+  const bucketCount = Math.ceil(duration / bucketDuration);
+
+  return Array.from({ length: bucketCount }, (_, index) => {
+    const start = index * bucketDuration;
+    const end = Math.min(start + bucketDuration, duration);
+    const clipped = segments
+      .map(segment => ({
+        speaker: segment.speaker,
+        start: Math.max(segment.start, start / 1000),
+        end: Math.min(segment.end, end / 1000),
+      }))
+      .filter(segment => segment.end > segment.start);
+    return {
+      start,
+      end,
+      speakingTime: Object.fromEntries(computeSpeakerActivity(clipped).attributedTime),
+    };
+  });
+}
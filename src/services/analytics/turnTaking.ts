@@ -0,0 +1,62 @@
+import { DiarizationSegment, SpeakerTurnStats, TurnTakingStats } from '../../types';
+import { mean, median } from './utils';
+
+export interface Turn {
+  speaker: string;
+  start: number; // in seconds
+  end: number; // in seconds
+  segmentCount: number;
+}
+
+/**
+ * Merge consecutive segments of the same speaker into turns (segments ordered by start time)
+ */
+export function buildTurns(segments: DiarizationSegment[]): Turn[] {
+  const ordered = [...segments].sort((a, b) => a.start - b.start);
+  const turns: Turn[] = [];
+  ordered.forEach(segment => {
+    const last = turns[turns.length - 1];
+    if (last && last.speaker === segment.speaker) {
+      last.end = Math.max(last.end, segment.end);
+      last.segmentCount++;
+    } else {
+      turns.push({ speaker: segment.speaker, start: segment.start, end: segment.end, segmentCount: 1 });
+    }
+  });
+  return turns;
+}
+
+/**
+ * Per-speaker turn counts, turn lengths and longest monologue
+ */
+export function analyzeTurnTaking(segments: DiarizationSegment[]): TurnTakingStats {
+  const turns = buildTurns(segments);
+  const turnsBySpeaker = new Map<string, Turn[]>();
+  turns.forEach(turn => {
+    turnsBySpeaker.set(turn.speaker, [...(turnsBySpeaker.get(turn.speaker) || []), turn]);
+  });
+
+  const speakers: SpeakerTurnStats[] = Array.from(turnsBySpeaker.entries()).map(([speaker, speakerTurns]) => {
+    const lengths = speakerTurns.map(turn => (turn.end - turn.start) * 1000); // in ms
+    const longest = speakerTurns.reduce((best, turn) =>
+      turn.end - turn.start > best.end - best.start ? turn : best
+    );
+    return {
+      speaker,
+      turns: speakerTurns.length,
+      turnShare: turns.length > 0 ? (speakerTurns.length / turns.length) * 100 : 0,
+      meanTurnLength: mean(lengths),
+      medianTurnLength: median(lengths),
+      longestTurn: {
+        duration: (longest.end - longest.start) * 1000,
+        start: longest.start,
+        end: longest.end,
+      },
+    };
+  });
+
+  return {
+    totalTurns: turns.length,
+    speakers: speakers.sort((a, b) => b.turns - a.turns),
+  };
+}
@@ -0,0 +1,40 @@
+/**
+ * Save text as a file through the browser's download
+ */
+export function downloadFile(content: string, fileName: string, mimeType: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Give the browser a moment to start the download before releasing the blob
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+/**
+ * Turn a meeting name into something safe to use in a file name
+ */
+export function toFileName(name: string, fallback: string = 'meeting'): string {
+  const cleaned = name.trim().replace(/[\\/:*?"<>|]+/g, '').replace(/\s+/g, '-').slice(0, 80);
+  return cleaned || fallback;
+}
+
+/**
+ * Open an HTML document in a new window and show the print dialog (where it can be saved as PDF)
+ * @returns false if the window was blocked
+ */
+export function printHtml(html: string): boolean {
+  const printWindow = window.open('', '_blank');
+  if (!printWindow) {
+    return false;
+  }
+  printWindow.document.open();
+  printWindow.document.write(html);
+  printWindow.document.close();
+  printWindow.focus();
+  // Let the page lay out before printing
+  setTimeout(() => printWindow.print(), 250);
+  return true;
+}
@@ -0,0 +1,160 @@
+import { DiarizationSegment, HistoryBundle, HistoryImportMode, HistoryItem, Speaker } from '../types';
+import { HISTORY_SCHEMA_VERSION, isHistoryItemLike, migrateHistoryItem } from './HistoryService';
+
+const BUNDLE_FORMAT = 'talk-parity-history';
+// Bump when the bundle envelope changes; items carry their own schemaVersion
+export const HISTORY_BUNDLE_VERSION = 1;
+
+/**
+ * The file can't be imported; existing history is left untouched
+ */
+export class HistoryImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'HistoryImportError';
+  }
+}
+
+export interface ParsedHistoryBundle {
+  items: HistoryItem[]; // Valid items, migrated to the current schema
+  skipped: number; // Items that were not recognizable and were left out
+  exportedAt?: string;
+}
+
+export interface HistoryImportPlan {
+  newItems: HistoryItem[];
+  duplicates: { incoming: HistoryItem; existing: HistoryItem }[]; // Matched by id or transcriptId
+}
+
+/**
+ * Package history items for export; stored audio stays in this browser
+ */
+export function createHistoryBundle(items: HistoryItem[]): HistoryBundle {
+  return {
+    format: BUNDLE_FORMAT,
+    version: HISTORY_BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    schemaVersion: HISTORY_SCHEMA_VERSION,
+    items: items.map(item => ({ ...migrateHistoryItem(item), audioSize: undefined })),
+  };
+}
+
+const isSpeakerLike = (value: unknown): value is Speaker => {
+  if (!value || typeof value !== 'object') return false;
+  const speaker = value as Partial<Speaker>;
+  return typeof speaker.id === 'string'
+    && typeof speaker.label === 'string'
+    && typeof speaker.speakingTime === 'number'
+    && typeof speaker.percentage === 'number'
+    && Array.isArray(speaker.allPhrases)
+    && Array.isArray(speaker.speechExamples);
+};
+
+const isSegmentLike = (value: unknown): value is DiarizationSegment => {
+  if (!value || typeof value !== 'object') return false;
+  const segment = value as Partial<DiarizationSegment>;
+  return typeof segment.speaker === 'string' && typeof segment.start === 'number' && typeof segment.end === 'number';
+};
+
+const isImportableItem = (value: unknown): value is HistoryItem =>
+  isHistoryItemLike(value)
+  && typeof value.name === 'string'
+  && typeof value.transcriptId === 'string'
+  && value.speakers.every(isSpeakerLike)
+  && (value.segments === undefined || (Array.isArray(value.segments) && value.segments.every(isSegmentLike)))
+  && (value.words === undefined || Array.isArray(value.words));
+
+/**
+ * Read and validate an exported file. Also accepts a raw `talk-parity-history` array copied from localStorage.
+ * @throws HistoryImportError if the file is not a history export or holds nothing importable
+ */
+export function parseHistoryBundle(text: string): ParsedHistoryBundle {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new HistoryImportError('The file is not valid JSON');
+  }
+
+  let candidates: unknown[];
+  let exportedAt: string | undefined;
+  if (Array.isArray(parsed)) {
+    candidates = parsed;
+  } else if (parsed && typeof parsed === 'object' && (parsed as Partial<HistoryBundle>).format === BUNDLE_FORMAT) {
+    const bundle = parsed as Partial<HistoryBundle>;
+    if (typeof bundle.version !== 'number' || bundle.version > HISTORY_BUNDLE_VERSION) {
+      throw new HistoryImportError('The file was exported by a newer version of the app');
+    }
+    if (!Array.isArray(bundle.items)) {
+      throw new HistoryImportError('The file has no history items');
+    }
+    candidates = bundle.items;
+    exportedAt = typeof bundle.exportedAt === 'string' ? bundle.exportedAt : undefined;
+  } else {
+    throw new HistoryImportError('The file is not a history export');
+  }
+
+  const valid = candidates.filter(isImportableItem);
+  if (valid.some(item => (item.schemaVersion || 1) > HISTORY_SCHEMA_VERSION)) {
+    throw new HistoryImportError('The file contains meetings saved by a newer version of the app');
+  }
+  if (valid.length === 0 && candidates.length > 0) {
+    throw new HistoryImportError('None of the meetings in the file could be read');
+  }
+
+  return {
+    // Audio is never part of an export, so a stale size would point at nothing
+    items: valid.map(item => ({ ...migrateHistoryItem(item), audioSize: undefined })),
+    skipped: candidates.length - valid.length,
+    exportedAt,
+  };
+}
+
+/**
+ * Split imported items into new ones and ones already in history (same id or same transcript)
+ */
+export function planHistoryImport(existing: HistoryItem[], incoming: HistoryItem[]): HistoryImportPlan {
+  const plan: HistoryImportPlan = { newItems: [], duplicates: [] };
+  incoming.forEach(item => {
+    const match = existing.find(current => current.id === item.id)
+      || existing.find(current => current.transcriptId === item.transcriptId);
+    if (match) {
+      plan.duplicates.push({ incoming: item, existing: match });
+    } else {
+      plan.newItems.push(item);
+    }
+  });
+  return plan;
+}
+
+/**
+ * Resolve a duplicate. Merge keeps the local item and only fills in what it is missing
+ * (e.g. segments or analytics); replace takes the imported item. Either way the local id,
+ * and with it any stored audio, is kept.
+ */
+export function resolveDuplicate(existing: HistoryItem, incoming: HistoryItem, mode: HistoryImportMode): HistoryItem {
+  if (mode === 'replace') {
+    return { ...incoming, id: existing.id, audioSize: existing.audioSize };
+  }
+  const merged: HistoryItem = { ...existing };
+  (Object.keys(incoming) as (keyof HistoryItem)[]).forEach(key => {
+    if (merged[key] === undefined && incoming[key] !== undefined) {
+      Object.assign(merged, { [key]: incoming[key] });
+    }
+  });
+  // Don't bring back a trimmed flag when the missing details came from the import
+  if (existing.detailTrimmed && merged.segments && merged.words) {
+    merged.detailTrimmed = incoming.detailTrimmed;
+  }
+  return merged;
+}
+
+/**
+ * Items to write for an import: all new items plus the resolved duplicates
+ */
+export function buildImportItems(plan: HistoryImportPlan, mode: HistoryImportMode): HistoryItem[] {
+  return [
+    ...plan.newItems,
+    ...plan.duplicates.map(({ existing, incoming }) => resolveDuplicate(existing, incoming, mode)),
+  ];
+}
@@ -0,0 +1,101 @@
+const DB_NAME = 'talk-parity';
+// Bump when object stores or indexes change and add a step to upgradeDatabase
+const DB_VERSION = 2;
+
+export const AUDIO_STORE = 'audio';
+export const HISTORY_STORE = 'history';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Create or upgrade object stores, one step per database version
+ */
+function upgradeDatabase(db: IDBDatabase, oldVersion: number): void {
+  if (oldVersion < 1) {
+    db.createObjectStore(AUDIO_STORE, { keyPath: 'id' });
+  }
+  if (oldVersion < 2) {
+    const history = db.createObjectStore(HISTORY_STORE, { keyPath: 'id' });
+    history.createIndex('timestamp', 'timestamp');
+  }
+}
+
+/**
+ * Open (and create or upgrade) the app's IndexedDB database; the connection is shared
+ */
+export function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available in this browser'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        console.log(`🗄️ Upgrading database from version ${event.oldVersion} to ${DB_VERSION}`);
+        upgradeDatabase(request.result, event.oldVersion);
+      };
+      request.onsuccess = () => {
+        const db = request.result;
+        // Let a newer version of the app in another tab upgrade the database
+        db.onversionchange = () => {
+          db.close();
+          dbPromise = null;
+        };
+        resolve(db);
+      };
+      request.onerror = () => reject(request.error);
+      request.onblocked = () => reject(new Error('The database is open in another tab with an older version'));
+    }).catch(error => {
+      dbPromise = null; // Allow a retry
+      throw error;
+    });
+  }
+  return dbPromise;
+}
+
+/**
+ * Wrap an IDBRequest in a promise
+ */
+export function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Run several requests in one transaction and wait for it to commit.
+ * Only await IndexedDB requests inside the callback, or the transaction closes early.
+ */
+export async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  callback: (store: IDBObjectStore) => Promise<T>
+): Promise<T> {
+  const db = await openDatabase();
+  const transaction = db.transaction(storeName, mode);
+  const completed = new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error || new Error('Transaction aborted'));
+  });
+  const result = callback(transaction.objectStore(storeName));
+  result.catch(() => undefined); // Failures are reported through the transaction below
+  await completed;
+  return result;
+}
+
+/**
+ * Run a single request in its own transaction and wait for the transaction to commit
+ */
+export function runInStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  return withStore(storeName, mode, store => promisifyRequest(operation(store)));
+}
+
+export const isQuotaError = (error: unknown): boolean =>
+  error instanceof DOMException && (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED');
@@ -0,0 +1,659 @@
+import axios from 'axios';
+import { DiarizationSegment, ProviderInfo, TranscriptionOptions, TranscriptWord } from '../../types';
+import { DiarizationProvider, DiarizationResult, ProviderContext, TranscriptionFailedError } from './DiarizationProvider';
+import {
+  DEFAULT_POLLING_STRATEGY,
+  describePollingStrategy,
+  getPollDelay,
+  getPollTimeout,
+  getRetryAfterDelay,
+  isTransientError,
+  PollingStrategy,
+  resolvePollingStrategy,
+} from './polling';
+import { sleep } from './utils';
+
+export const ASSEMBLY_AI_API_URL = 'https://api.assemblyai.com/v2';
+
+interface AssemblyAIWord {
+  text: string;
+  start: number; // in milliseconds
+  end: number; // in milliseconds
+  confidence?: number;
+  speaker?: string | null;
+}
+
+interface AssemblyAIUtterance {
+  speaker?: string | null;
+  start: number; // in milliseconds
+  end: number; // in milliseconds
+  text?: string;
+  words?: AssemblyAIWord[];
+}
+
+/**
+ * Subset of the GET /transcript/:id response that we read
+ */
+interface AssemblyAITranscript {
+  id: string;
+  status: 'queued' | 'processing' | 'completed' | 'error';
+  text?: string | null;
+  utterances?: AssemblyAIUtterance[] | null;
+  words?: AssemblyAIWord[] | null;
+  audio_duration?: number | null; // in seconds
+  error?: string;
+  status_text?: string;
+  speaker_labels?: boolean;
+}
+
+export class AssemblyAIProvider implements DiarizationProvider {
+  readonly id = 'assemblyai' as const;
+  readonly name = 'AssemblyAI';
+  readonly requiresApiKey = true;
+  readonly supportsResume = true;
+
+  private apiKey: string = '';
+  private apiUrl: string = ASSEMBLY_AI_API_URL;
+  private pollingStrategy: PollingStrategy = DEFAULT_POLLING_STRATEGY;
+
+  /**
+   * Set API key for AssemblyAI
+   * You can get a free API key from https://www.assemblyai.com/
+   */
+  setApiKey(apiKey: string): void {
+    this.apiKey = apiKey;
+  }
+
+  hasApiKey(): boolean {
+    return !!this.apiKey;
+  }
+
+  setBaseUrl(baseUrl: string | undefined): void {
+    this.apiUrl = baseUrl ? baseUrl.replace(/\/+$/, '') : ASSEMBLY_AI_API_URL;
+  }
+
+  setPollingStrategy(strategy: Partial<PollingStrategy>): void {
+    this.pollingStrategy = resolvePollingStrategy(strategy);
+  }
+
+  describe(options: TranscriptionOptions = {}): ProviderInfo {
+    return {
+      id: this.id,
+      name: this.name,
+      config: {
+        apiUrl: this.apiUrl,
+        speakerLabels: true,
+        // Matches buildTranscriptRequest: detection is only requested without a language code
+        languageDetection: !options.languageCode,
+      },
+    };
+  }
+
+  /**
+   * Upload raw audio to AssemblyAI and return the hosted upload URL
+   */
+  async upload(audioFile: File, context: ProviderContext): Promise<string> {
+    const { apiInfo, requestCallback } = context;
+    const uploadUrl_full = `${this.apiUrl}/upload`;
+    const uploadStartTime = Date.now();
+
+    // Update API info with upload request URL
+    context.updateApiInfo({
+      ...apiInfo,
+      uploadRequestUrl: uploadUrl_full,
+    });
+
+    if (requestCallback) {
+      requestCallback({
+        method: 'POST',
+        url: uploadUrl_full,
+      });
+    }
+
+    // According to AssemblyAI docs, we need to send raw binary data with Content-Type: application/octet-stream
+    // NOT multipart/form-data. Read the file as ArrayBuffer and send it directly.
+    console.log('📋 Preparing file for upload (raw binary):', {
+      fileName: audioFile.name,
+      fileType: audioFile.type,
+      fileSize: audioFile.size
+    });
+
+    // Read the file as ArrayBuffer for raw binary upload
+    const fileArrayBuffer = await audioFile.arrayBuffer();
+
+    console.log('🚀 Uploading to AssemblyAI (raw binary):', {
+      url: uploadUrl_full,
+      fileName: audioFile.name,
+      fileType: audioFile.type,
+      fileSize: fileArrayBuffer.byteLength,
+      contentType: 'application/octet-stream'
+    });
+
+    const uploadResponse = await fetch(uploadUrl_full, {
+      method: 'POST',
+      headers: {
+        authorization: this.apiKey,
+        'Content-Type': 'application/octet-stream', // Raw binary data, not multipart/form-data
+      },
+      body: fileArrayBuffer, // Send raw binary data
+      signal: context.signal,
+    });
+
+    console.log('📡 Upload response:', {
+      status: uploadResponse.status,
+      statusText: uploadResponse.statusText,
+      headers: Object.fromEntries(uploadResponse.headers.entries())
+    });
+
+    const uploadResponseTime = Date.now() - uploadStartTime;
+
+    if (!uploadResponse.ok) {
+      let errorText = '';
+      let errorData = null;
+      try {
+        errorData = await uploadResponse.json();
+        errorText = errorData.error || JSON.stringify(errorData);
+      } catch {
+        errorText = await uploadResponse.text();
+      }
+
+      if (requestCallback) {
+        requestCallback({
+          method: 'POST',
+          url: uploadUrl_full,
+          status: uploadResponse.status,
+          responseTime: uploadResponseTime,
+          error: errorText,
+          responseData: errorData,
+        });
+      }
+
+      throw new Error(`Upload failed (${uploadResponse.status}): ${errorText}`);
+    }
+
+    const uploadData = await uploadResponse.json();
+    const uploadUrl = uploadData.upload_url;
+
+    if (requestCallback) {
+      requestCallback({
+        method: 'POST',
+        url: uploadUrl_full,
+        status: uploadResponse.status,
+        responseTime: uploadResponseTime,
+        responseData: { upload_url: uploadUrl, ...uploadData },
+      });
+    }
+
+    if (!uploadUrl) {
+      throw new Error('Failed to get upload URL from API response');
+    }
+
+    apiInfo.uploadUrl = uploadUrl;
+    apiInfo.uploadTime = uploadResponseTime;
+
+    return uploadUrl;
+  }
+
+  /**
+   * Start transcription with speaker diarization
+   */
+  async startJob(audioUrl: string, context: ProviderContext): Promise<string> {
+    const { apiInfo, requestCallback } = context;
+    const transcriptUrl = `${this.apiUrl}/transcript`;
+    const transcriptStartTime = Date.now();
+
+    // Update API info with transcript request URL
+    context.updateApiInfo({
+      ...apiInfo,
+      transcriptRequestUrl: transcriptUrl,
+    });
+
+    if (requestCallback) {
+      requestCallback({
+        method: 'POST',
+        url: transcriptUrl,
+      });
+    }
+
+    let transcriptResponse;
+    try {
+      transcriptResponse = await axios.post(
+        transcriptUrl,
+        this.buildTranscriptRequest(audioUrl, context.options),
+        {
+          headers: {
+            authorization: this.apiKey,
+            'content-type': 'application/json',
+          },
+          signal: context.signal,
+        },
+      );
+
+      const transcriptResponseTime = Date.now() - transcriptStartTime;
+
+      if (requestCallback) {
+        requestCallback({
+          method: 'POST',
+          url: transcriptUrl,
+          status: transcriptResponse.status,
+          responseTime: transcriptResponseTime,
+          responseData: { id: transcriptResponse.data.id, status: transcriptResponse.data.status },
+        });
+      }
+    } catch (error) {
+      const transcriptResponseTime = Date.now() - transcriptStartTime;
+      const errorMessage = axios.isAxiosError(error)
+        ? error.response?.data?.error || error.message
+        : 'Unknown error';
+
+      if (requestCallback) {
+        requestCallback({
+          method: 'POST',
+          url: transcriptUrl,
+          status: axios.isAxiosError(error) ? error.response?.status : undefined,
+          responseTime: transcriptResponseTime,
+          error: errorMessage,
+          responseData: axios.isAxiosError(error) ? error.response?.data : undefined,
+        });
+      }
+
+      throw new Error(`Failed to start transcription: ${errorMessage}`);
+    }
+
+    const transcriptId = transcriptResponse.data.id;
+
+    if (!transcriptId) {
+      throw new Error('Failed to get transcript ID from API response');
+    }
+
+    apiInfo.transcriptRequestUrl = transcriptUrl;
+
+    return transcriptId;
+  }
+
+  /**
+   * Map per-run options onto the AssemblyAI transcript request body
+   */
+  private buildTranscriptRequest(audioUrl: string, options: TranscriptionOptions = {}): Record<string, unknown> {
+    const request: Record<string, unknown> = {
+      audio_url: audioUrl,
+      speaker_labels: true,
+    };
+
+    if (options.speakersExpected) {
+      request.speakers_expected = options.speakersExpected;
+    } else if (options.minSpeakers || options.maxSpeakers) {
+      request.speaker_options = {
+        ...(options.minSpeakers ? { min_speakers_expected: options.minSpeakers } : {}),
+        ...(options.maxSpeakers ? { max_speakers_expected: options.maxSpeakers } : {}),
+      };
+    }
+
+    if (options.languageCode) {
+      request.language_code = options.languageCode;
+    } else {
+      request.language_detection = true;
+    }
+
+    if (options.speechModel) {
+      request.speech_model = options.speechModel;
+    }
+
+    if (options.wordBoost && options.wordBoost.length > 0) {
+      request.word_boost = options.wordBoost;
+      if (options.boostParam) {
+        request.boost_param = options.boostParam;
+      }
+    }
+
+    return request;
+  }
+
+  /**
+   * Poll transcription status until complete, backing off between polls
+   * and retrying transient errors
+   */
+  async waitForCompletion(transcriptId: string, context: ProviderContext): Promise<DiarizationResult> {
+    const { apiInfo, requestCallback } = context;
+    const strategy = this.pollingStrategy;
+    const pollTimeout = getPollTimeout(strategy, context.audioDuration);
+    let attempts = 0;
+    let consecutiveErrors = 0;
+    const pollUrl = `${this.apiUrl}/transcript/${transcriptId}`;
+    const pollStartTime = Date.now();
+
+    // Update API info with poll request URL, start time and strategy
+    apiInfo.pollRequestUrl = pollUrl;
+    apiInfo.pollStartTime = pollStartTime;
+    apiInfo.pollStrategy = describePollingStrategy(strategy);
+    apiInfo.pollTimeout = pollTimeout;
+    apiInfo.pollRetries = 0;
+    context.updateApiInfo(apiInfo);
+
+    while (Date.now() - pollStartTime < pollTimeout) {
+      let nextDelay: number;
+      try {
+        const requestStartTime = Date.now();
+
+        if (attempts === 0 && requestCallback) {
+          requestCallback({
+            method: 'GET',
+            url: pollUrl,
+          });
+        }
+
+        const response = await axios.get<AssemblyAITranscript>(
+          pollUrl,
+          {
+            headers: {
+              authorization: this.apiKey,
+            },
+            signal: context.signal,
+          },
+        );
+
+        const pollResponseTime = Date.now() - requestStartTime;
+        const status = response.data.status;
+        attempts++;
+        consecutiveErrors = 0;
+
+        // Only log on first attempt, completion, or error
+        if (attempts === 1 || status === 'completed' || status === 'error') {
+          if (requestCallback) {
+            requestCallback({
+              method: 'GET',
+              url: pollUrl,
+              status: response.status,
+              responseTime: pollResponseTime,
+              responseData: {
+                status: status,
+                utterances_count: response.data.utterances?.length || 0,
+                has_utterances: !!response.data.utterances,
+              },
+            });
+          }
+        }
+
+        if (status === 'completed') {
+          apiInfo.transcriptStatus = status;
+          apiInfo.pollAttempts = attempts;
+          apiInfo.nextPollDelay = undefined;
+          context.updateApiInfo(apiInfo);
+          return this.parseTranscript(response.data);
+        }
+
+        if (status === 'error') {
+          apiInfo.transcriptStatus = status;
+          apiInfo.pollAttempts = attempts;
+          apiInfo.nextPollDelay = undefined;
+          context.updateApiInfo(apiInfo);
+          const errorMessage = response.data.error || response.data.status_text || 'Unknown error occurred';
+          console.error('Transcription error details:', response.data);
+          throw new TranscriptionFailedError(`Transcription failed: ${errorMessage}`);
+        }
+
+        // Log progress for long transcriptions
+        if (attempts % 10 === 0) {
+          console.log(`Transcription in progress... (attempt ${attempts}, ${Math.round((Date.now() - pollStartTime) / 1000)}s elapsed)`);
+        }
+
+        nextDelay = getPollDelay(strategy, attempts);
+        apiInfo.transcriptStatus = status;
+      } catch (error) {
+        // Rate limits, server errors and dropped connections don't mean the job failed
+        if (!isTransientError(error) || consecutiveErrors >= strategy.maxConsecutiveErrors) {
+          if (axios.isAxiosError(error) && !axios.isCancel(error)) {
+            const errorMessage = error.response?.data?.error || error.message;
+            console.error('Error polling transcription:', error);
+            throw new Error(`Failed to check transcription status: ${errorMessage || 'Unknown error'}`);
+          }
+          throw error;
+        }
+        consecutiveErrors++;
+        apiInfo.pollRetries = (apiInfo.pollRetries || 0) + 1;
+        nextDelay = getRetryAfterDelay(error) ?? getPollDelay(strategy, attempts + consecutiveErrors);
+        console.warn(`⚠️ Transient error while polling (retry ${consecutiveErrors}/${strategy.maxConsecutiveErrors} in ${nextDelay}ms):`, error);
+      }
+
+      // Don't sleep past the timeout
+      nextDelay = Math.min(nextDelay, Math.max(pollTimeout - (Date.now() - pollStartTime), 0));
+      apiInfo.pollAttempts = attempts;
+      apiInfo.nextPollDelay = nextDelay;
+      context.updateApiInfo(apiInfo);
+
+      await sleep(nextDelay, context.signal);
+    }
+
+    throw new Error(`Transcription timeout after ${Math.round(pollTimeout / 60_000)} minutes - the audio file may be too long or the service is taking longer than expected.`);
+  }
+
+  /**
+   * Fetch a finished transcript again (e.g. to recompute stats for a history item)
+   */
+  async fetchResult(transcriptId: string, context: ProviderContext): Promise<DiarizationResult> {
+    const { requestCallback } = context;
+    const transcriptUrl = `${this.apiUrl}/transcript/${transcriptId}`;
+    const requestStartTime = Date.now();
+
+    if (requestCallback) {
+      requestCallback({
+        method: 'GET',
+        url: transcriptUrl,
+      });
+    }
+
+    let transcript: AssemblyAITranscript;
+    try {
+      const response = await axios.get<AssemblyAITranscript>(transcriptUrl, {
+        headers: {
+          authorization: this.apiKey,
+        },
+        signal: context.signal,
+      });
+      transcript = response.data;
+
+      if (requestCallback) {
+        requestCallback({
+          method: 'GET',
+          url: transcriptUrl,
+          status: response.status,
+          responseTime: Date.now() - requestStartTime,
+          responseData: {
+            status: transcript.status,
+            utterances_count: transcript.utterances?.length || 0,
+          },
+        });
+      }
+    } catch (error) {
+      const errorMessage = axios.isAxiosError(error)
+        ? error.response?.data?.error || error.message
+        : 'Unknown error';
+      throw new Error(`Failed to fetch transcript: ${errorMessage}`);
+    }
+
+    if (transcript.status !== 'completed') {
+      throw new Error(`Transcript is not available (status: ${transcript.status})`);
+    }
+    return this.parseTranscript(transcript);
+  }
+
+  /**
+   * Delete a transcript (and its uploaded audio) from AssemblyAI
+   */
+  async deleteJob(transcriptId: string): Promise<void> {
+    const deleteUrl = `${this.apiUrl}/transcript/${transcriptId}`;
+    try {
+      await axios.delete(deleteUrl, {
+        headers: {
+          authorization: this.apiKey,
+        },
+      });
+    } catch (error) {
+      const errorMessage = axios.isAxiosError(error)
+        ? error.response?.data?.error || error.message
+        : 'Unknown error';
+      throw new Error(`Failed to delete transcript: ${errorMessage}`);
+    }
+  }
+
+  /**
+   * Normalize a completed AssemblyAI transcript into diarization segments
+   */
+  private parseTranscript(data: AssemblyAITranscript): DiarizationResult {
+    console.log('=== TRANSCRIPTION COMPLETED ===');
+    console.log('Full response data:', JSON.stringify(data, null, 2));
+    console.log('Response keys:', Object.keys(data));
+
+    // AssemblyAI might return utterances or words array
+    let utterances: AssemblyAIUtterance[] = data.utterances || [];
+
+    console.log('Utterances from response:', utterances);
+    console.log('Utterances type:', typeof utterances);
+    console.log('Utterances is array:', Array.isArray(utterances));
+    console.log('Utterances length:', utterances?.length);
+
+    // If no utterances, check for words array (alternative format)
+    if (utterances.length === 0 && data.words) {
+      console.log('No utterances found, checking words array...');
+      console.log('Words array:', data.words);
+      // Group words by speaker if words array is available
+      utterances = this.groupWordsBySpeaker(data.words);
+      console.log('Grouped utterances from words:', utterances);
+    }
+
+    // Also check if there's a transcript with speaker_labels
+    if (utterances.length === 0 && data.text) {
+      console.log('Found text but no utterances. Checking for alternative format...');
+      // Some responses might have speaker_labels in a different format
+      if (data.speaker_labels) {
+        console.log('Found speaker_labels:', data.speaker_labels);
+      }
+    }
+
+    console.log('Final utterances array:', utterances);
+    console.log('Utterances count:', utterances.length);
+
+    if (utterances.length === 0) {
+      console.error('=== NO UTTERANCES FOUND ===');
+      console.error('Available data:', {
+        hasUtterances: !!data.utterances,
+        utterancesLength: data.utterances?.length || 0,
+        hasWords: !!data.words,
+        wordsLength: data.words?.length || 0,
+        hasText: !!data.text,
+        textLength: data.text?.length || 0,
+        hasSpeakerLabels: !!data.speaker_labels,
+        responseKeys: Object.keys(data)
+      });
+      console.error('Full response for debugging:', data);
+      throw new TranscriptionFailedError('Transcription completed but no speech was detected. Please ensure the audio contains clear speech.');
+    }
+
+    const segments = this.parseDiarizationSegments(utterances);
+    console.log('=== PARSED SEGMENTS ===', segments);
+
+    // Get audio duration from API response (in milliseconds) or calculate from segments
+    const audioDuration = data.audio_duration
+      ? data.audio_duration * 1000 // Convert seconds to ms
+      : segments.length > 0
+        ? Math.max(...segments.map(s => s.end)) * 1000 // Max end time in ms
+        : 0;
+
+    // Word-level data: top-level words, or the words nested in utterances
+    const rawWords = data.words?.length
+      ? data.words
+      : (data.utterances || []).flatMap(utterance => utterance.words || []);
+    const words = rawWords.length > 0 ? this.parseWords(rawWords) : undefined;
+
+    return { segments, audioDuration, words };
+  }
+
+  /**
+   * Normalize words to seconds and the same speaker labels as segments
+   */
+  private parseWords(words: AssemblyAIWord[]): TranscriptWord[] {
+    return words.map(word => ({
+      text: word.text,
+      start: (word.start || 0) / 1000, // Convert ms to seconds
+      end: (word.end || 0) / 1000,
+      confidence: word.confidence,
+      speaker: word.speaker !== undefined && word.speaker !== null ? `Speaker ${word.speaker}` : undefined,
+    }));
+  }
+
+  /**
+   * Parse API response into diarization segments
+   */
+  private parseDiarizationSegments(utterances: AssemblyAIUtterance[]): DiarizationSegment[] {
+    console.log('Parsing diarization segments, utterances:', utterances);
+
+    if (!Array.isArray(utterances) || utterances.length === 0) {
+      console.error('No utterances array or empty array received');
+      throw new TranscriptionFailedError('No utterances found in transcription response');
+    }
+
+    const segments = utterances.map((utterance, index) => {
+      console.log(`Processing utterance ${index}:`, utterance);
+
+      // AssemblyAI returns speaker as a string like "A", "B", etc. or as a number
+      const speakerLabel = utterance.speaker !== undefined && utterance.speaker !== null
+        ? `Speaker ${utterance.speaker}`
+        : 'Speaker Unknown';
+
+      const segment = {
+        speaker: speakerLabel,
+        start: (utterance.start || 0) / 1000, // Convert ms to seconds
+        end: (utterance.end || 0) / 1000,
+        text: utterance.text || '', // Include transcript text
+      };
+
+      console.log(`Created segment ${index}:`, segment);
+      return segment;
+    });
+
+    console.log('Parsed segments:', segments);
+    return segments;
+  }
+
+  /**
+   * Group words array into utterances by speaker (fallback if utterances not available)
+   */
+  private groupWordsBySpeaker(words: AssemblyAIWord[]): AssemblyAIUtterance[] {
+    if (!Array.isArray(words) || words.length === 0) {
+      return [];
+    }
+
+    const utterances: AssemblyAIUtterance[] = [];
+    let currentUtterance: AssemblyAIUtterance | null = null;
+
+    words.forEach((word) => {
+      if (!word.speaker && word.speaker !== 'A' && word.speaker !== 'B') {
+        return; // Skip words without speaker
+      }
+
+      // Start new utterance if speaker changed or no current utterance
+      if (!currentUtterance || currentUtterance.speaker !== word.speaker) {
+        if (currentUtterance) {
+          utterances.push(currentUtterance);
+        }
+        currentUtterance = {
+          speaker: word.speaker,
+          start: word.start,
+          end: word.end,
+          text: word.text || '',
+        };
+      } else {
+        // Extend current utterance
+        currentUtterance.end = word.end;
+        currentUtterance.text += (currentUtterance.text ? ' ' : '') + (word.text || '');
+      }
+    });
+
+    // Add last utterance
+    if (currentUtterance) {
+      utterances.push(currentUtterance);
+    }
+
+    return utterances;
+  }
+}
@@ -0,0 +1,111 @@
+import type { PollingStrategy } from './polling';
+import {
+  ApiRequestInfo,
+  DiarizationProviderId,
+  DiarizationSegment,
+  ProviderInfo,
+  TranscriptionOptions,
+  TranscriptWord,
+} from '../../types';
+
+export interface ApiRequestCallback {
+  (info: { method: string; url: string; status?: number; responseTime?: number; error?: string; responseData?: unknown }): void;
+}
+
+/**
+ * Shared state handed to a provider for the duration of one transcription run
+ */
+export interface ProviderContext {
+  apiInfo: ApiRequestInfo;
+  updateApiInfo: (info: ApiRequestInfo) => void;
+  requestCallback: ApiRequestCallback | null;
+  signal?: AbortSignal; // Aborts uploads, requests and polling when the user cancels
+  audioDuration?: number; // Duration of the uploaded audio in ms, if known (sizes the polling timeout)
+  options?: TranscriptionOptions; // Per-run settings for startJob
+  decodedAudio?: AudioBuffer; // The audio already decoded in the browser (recordings), for on-device analysis
+}
+
+/**
+ * The provider finished the job but it cannot produce a result
+ * (as opposed to network or timeout errors, where the job may still complete)
+ */
+export class TranscriptionFailedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TranscriptionFailedError';
+  }
+}
+
+/**
+ * The user cancelled processing; carries the job (if one was started) so it can be deleted remotely
+ */
+export class TranscriptionCancelledError extends Error {
+  constructor(
+    readonly transcriptId?: string,
+    readonly provider?: ProviderInfo,
+  ) {
+    super('Processing was cancelled');
+    this.name = 'TranscriptionCancelledError';
+  }
+}
+
+export interface DiarizationResult {
+  segments: DiarizationSegment[];
+  audioDuration: number; // in milliseconds
+  words?: TranscriptWord[]; // Word-level timings and confidences, if available
+}
+
+/**
+ * A speaker diarization backend (cloud vendor or self-hosted engine).
+ * The pipeline is always: upload audio -> start job -> wait for completion,
+ * and every provider normalizes its response to DiarizationSegment[].
+ */
+export interface DiarizationProvider {
+  readonly id: DiarizationProviderId;
+  readonly name: string;
+  readonly requiresApiKey: boolean;
+  readonly supportsResume: boolean; // Jobs keep running remotely and can be polled after a page reload
+
+  setApiKey(apiKey: string): void;
+  hasApiKey(): boolean;
+
+  /**
+   * Override the API base URL (e.g. a local mock server); undefined restores the default
+   */
+  setBaseUrl?(baseUrl: string | undefined): void;
+
+  /**
+   * Tune how a remote job is polled (providers that poll only); missing fields use the defaults
+   */
+  setPollingStrategy?(strategy: Partial<PollingStrategy>): void;
+
+  /**
+   * Non-secret settings to record with each history item, as sent for a run with the given options
+   */
+  describe(options?: TranscriptionOptions): ProviderInfo;
+
+  /**
+   * Upload audio and return a reference the provider can transcribe from
+   */
+  upload(audioFile: File, context: ProviderContext): Promise<string>;
+
+  /**
+   * Start a diarization job for uploaded audio and return its job ID
+   */
+  startJob(audioUrl: string, context: ProviderContext): Promise<string>;
+
+  /**
+   * Wait until the job finishes and return normalized segments
+   */
+  waitForCompletion(jobId: string, context: ProviderContext): Promise<DiarizationResult>;
+
+  /**
+   * Fetch the result of a finished job again, without polling (optional)
+   */
+  fetchResult?(jobId: string, context: ProviderContext): Promise<DiarizationResult>;
+
+  /**
+   * Delete a job and its data from the provider (optional)
+   */
+  deleteJob?(jobId: string): Promise<void>;
+}
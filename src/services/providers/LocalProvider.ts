@@ -0,0 +1,197 @@
+import { ProviderInfo } from '../../types';
+import { audioRecorderService } from '../AudioRecorderService';
+import type { LocalDiarizationRequest, LocalDiarizationResponse } from '../../workers/localDiarization.worker';
+import { DiarizationProvider, DiarizationResult, ProviderContext } from './DiarizationProvider';
+
+// Speech features only need the telephone band, so decode at 16 kHz to keep memory low
+const ANALYSIS_SAMPLE_RATE = 16000;
+const MAX_SPEAKERS = 6;
+
+interface LocalAudio {
+  samples: Float32Array;
+  sampleRate: number;
+}
+
+/**
+ * On-device diarization: audio never leaves the browser.
+ * Produces speaker segments without transcript text.
+ */
+export class LocalProvider implements DiarizationProvider {
+  readonly id = 'local' as const;
+  readonly name = 'On-device (offline)';
+  readonly requiresApiKey = false;
+  readonly supportsResume = false;
+
+  private decodedAudio = new Map<string, LocalAudio>();
+  private jobs = new Map<string, Promise<DiarizationResult>>();
+
+  setApiKey(): void {
+    // No credentials needed
+  }
+
+  hasApiKey(): boolean {
+    return false;
+  }
+
+  describe(): ProviderInfo {
+    return {
+      id: this.id,
+      name: this.name,
+      config: {
+        sampleRate: ANALYSIS_SAMPLE_RATE,
+        maxSpeakers: MAX_SPEAKERS,
+      },
+    };
+  }
+
+  /**
+   * Decode audio in the browser and keep it in memory until the job starts
+   * Recordings reuse the buffer decoded for the WAV conversion; uploaded files are decoded here
+   */
+  async upload(audioFile: File, context: ProviderContext): Promise<string> {
+    const decodeStartTime = Date.now();
+    context.apiInfo.transcriptStatus = 'decoding';
+    context.updateApiInfo(context.apiInfo);
+
+    const audioBuffer = context.decodedAudio
+      ? await this.resampleForAnalysis(context.decodedAudio)
+      : await audioRecorderService.decodeAudio(audioFile, ANALYSIS_SAMPLE_RATE);
+    context.signal?.throwIfAborted();
+
+    const audioRef = `local://${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+    this.decodedAudio.set(audioRef, {
+      samples: this.downmixToMono(audioBuffer),
+      sampleRate: audioBuffer.sampleRate,
+    });
+
+    context.apiInfo.uploadTime = Date.now() - decodeStartTime;
+    return audioRef;
+  }
+
+  /**
+   * Run diarization in a Web Worker so the UI stays responsive
+   */
+  async startJob(audioUrl: string, context: ProviderContext): Promise<string> {
+    const audio = this.decodedAudio.get(audioUrl);
+    if (!audio) {
+      throw new Error('Decoded audio not found. Please try processing the audio again.');
+    }
+    this.decodedAudio.delete(audioUrl);
+
+    const jobId = `local-${audioUrl.replace('local://', '')}`;
+    const worker = new Worker(new URL('../../workers/localDiarization.worker.ts', import.meta.url), { type: 'module' });
+
+    const job = new Promise<DiarizationResult>((resolve, reject) => {
+      // Stop the worker as soon as processing is cancelled
+      const onAbort = () => {
+        worker.terminate();
+        reject(context.signal?.reason);
+      };
+      context.signal?.addEventListener('abort', onAbort, { once: true });
+      // The signal can outlive the run, so don't leave the listener (and the worker) on it
+      const finish = () => {
+        context.signal?.removeEventListener('abort', onAbort);
+        worker.terminate();
+      };
+
+      worker.onmessage = (event: MessageEvent<LocalDiarizationResponse>) => {
+        const message = event.data;
+        if (message.type === 'progress') {
+          context.apiInfo.transcriptStatus = message.stage === 'clustering' ? 'clustering' : 'processing';
+          context.updateApiInfo(context.apiInfo);
+          return;
+        }
+        finish();
+        if (message.type === 'result') {
+          resolve({ segments: message.segments, audioDuration: message.audioDuration });
+        } else {
+          reject(new Error(`On-device diarization failed: ${message.message}`));
+        }
+      };
+      worker.onerror = (event) => {
+        finish();
+        reject(new Error(`On-device diarization failed: ${event.message || 'worker error'}`));
+      };
+    });
+    this.jobs.set(jobId, job);
+
+    const request: LocalDiarizationRequest = {
+      samples: audio.samples,
+      sampleRate: audio.sampleRate,
+      options: this.getSpeakerRange(context),
+    };
+    worker.postMessage(request, [audio.samples.buffer]);
+
+    return jobId;
+  }
+
+  async waitForCompletion(jobId: string, context: ProviderContext): Promise<DiarizationResult> {
+    const job = this.jobs.get(jobId);
+    if (!job) {
+      throw new Error('On-device diarization job not found. Local jobs do not survive a page reload.');
+    }
+
+    try {
+      const result = await job;
+      if (result.segments.length === 0) {
+        throw new Error('No speech was detected in the audio.');
+      }
+      context.apiInfo.transcriptStatus = 'completed';
+      context.updateApiInfo(context.apiInfo);
+      return result;
+    } catch (error) {
+      context.apiInfo.transcriptStatus = 'error';
+      context.updateApiInfo(context.apiInfo);
+      throw error;
+    } finally {
+      this.jobs.delete(jobId);
+    }
+  }
+
+  /**
+   * Speaker count limits for clustering, from the run options where given
+   */
+  private getSpeakerRange(context: ProviderContext): { minSpeakers: number; maxSpeakers: number } {
+    const { speakersExpected, minSpeakers, maxSpeakers } = context.options || {};
+    if (speakersExpected) {
+      return { minSpeakers: speakersExpected, maxSpeakers: speakersExpected };
+    }
+    return {
+      minSpeakers: minSpeakers || 1,
+      maxSpeakers: maxSpeakers || Math.max(MAX_SPEAKERS, minSpeakers || 0),
+    };
+  }
+
+  /**
+   * Bring already decoded audio to the analysis sample rate
+   */
+  private async resampleForAnalysis(audioBuffer: AudioBuffer): Promise<AudioBuffer> {
+    if (audioBuffer.sampleRate === ANALYSIS_SAMPLE_RATE) {
+      return audioBuffer;
+    }
+    const length = Math.ceil(audioBuffer.duration * ANALYSIS_SAMPLE_RATE);
+    const offlineContext = new OfflineAudioContext(audioBuffer.numberOfChannels, length, ANALYSIS_SAMPLE_RATE);
+    const source = offlineContext.createBufferSource();
+    source.buffer = audioBuffer;
+    source.connect(offlineContext.destination);
+    source.start();
+    return offlineContext.startRendering();
+  }
+
+  /**
+   * Average all channels into a single mono channel
+   */
+  private downmixToMono(audioBuffer: AudioBuffer): Float32Array {
+    if (audioBuffer.numberOfChannels === 1) {
+      return audioBuffer.getChannelData(0).slice();
+    }
+    const mono = new Float32Array(audioBuffer.length);
+    for (let channel = 0; channel < audioBuffer.numberOfChannels; channel++) {
+      const data = audioBuffer.getChannelData(channel);
+      for (let i = 0; i < data.length; i++) {
+        mono[i] += data[i] / audioBuffer.numberOfChannels;
+      }
+    }
+    return mono;
+  }
+}
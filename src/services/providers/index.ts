@@ -0,0 +1,43 @@
+import { DiarizationProviderId } from '../../types';
+import { AssemblyAIProvider } from './AssemblyAIProvider';
+import { DiarizationProvider } from './DiarizationProvider';
+import { LocalProvider } from './LocalProvider';
+
+export type { ApiRequestCallback, DiarizationProvider, DiarizationResult, ProviderContext } from './DiarizationProvider';
+export { TranscriptionCancelledError, TranscriptionFailedError } from './DiarizationProvider';
+export type { PollingStrategy } from './polling';
+export { DEFAULT_POLLING_STRATEGY, resolvePollingStrategy } from './polling';
+
+export const DEFAULT_PROVIDER_ID: DiarizationProviderId = 'assemblyai';
+
+/**
+ * Providers selectable in settings
+ */
+export const PROVIDER_OPTIONS: { id: DiarizationProviderId; name: string; description: string }[] = [
+  {
+    id: 'assemblyai',
+    name: 'AssemblyAI',
+    description: 'Cloud transcription with speaker labels (requires API key)',
+  },
+  {
+    id: 'local',
+    name: 'On-device (offline)',
+    description: 'Speaker detection in your browser - audio never leaves this device, no transcript text',
+  },
+];
+
+export function isProviderId(value: string | null | undefined): value is DiarizationProviderId {
+  return PROVIDER_OPTIONS.some(option => option.id === value);
+}
+
+/**
+ * Create a provider instance by ID
+ */
+export function createProvider(id: DiarizationProviderId): DiarizationProvider {
+  switch (id) {
+    case 'assemblyai':
+      return new AssemblyAIProvider();
+    case 'local':
+      return new LocalProvider();
+  }
+}
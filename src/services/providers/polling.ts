@@ -0,0 +1,110 @@
+import axios from 'axios';
+
+/**
+ * How often to poll a running job and how long to wait for it
+ */
+export interface PollingStrategy {
+  initialDelayMs: number; // Delay before the second poll
+  maxDelayMs: number; // Upper bound for the backed-off delay
+  backoffFactor: number; // Delay multiplier per attempt
+  jitter: number; // Random spread as a fraction of the delay (0.2 = ±20%)
+  timeoutMultiplier: number; // Timeout as a multiple of the audio duration
+  minTimeoutMs: number;
+  maxTimeoutMs: number;
+  defaultTimeoutMs: number; // Used when the audio duration is unknown
+  maxConsecutiveErrors: number; // Transient errors in a row before giving up
+}
+
+export const DEFAULT_POLLING_STRATEGY: PollingStrategy = {
+  initialDelayMs: 1_000,
+  maxDelayMs: 15_000,
+  backoffFactor: 1.5,
+  jitter: 0.2,
+  timeoutMultiplier: 1,
+  minTimeoutMs: 5 * 60_000,
+  maxTimeoutMs: 3 * 60 * 60_000,
+  defaultTimeoutMs: 30 * 60_000,
+  maxConsecutiveErrors: 5,
+};
+
+/**
+ * Fill in missing fields from the defaults and drop invalid values
+ */
+export function resolvePollingStrategy(overrides: Partial<PollingStrategy> = {}): PollingStrategy {
+  const strategy = { ...DEFAULT_POLLING_STRATEGY };
+  (Object.keys(DEFAULT_POLLING_STRATEGY) as (keyof PollingStrategy)[]).forEach((key) => {
+    const value = overrides[key];
+    if (typeof value === 'number' && Number.isFinite(value) && value >= 0) {
+      strategy[key] = value;
+    }
+  });
+  strategy.maxDelayMs = Math.max(strategy.maxDelayMs, strategy.initialDelayMs);
+  strategy.maxTimeoutMs = Math.max(strategy.maxTimeoutMs, strategy.minTimeoutMs);
+  strategy.jitter = Math.min(strategy.jitter, 1);
+  return strategy;
+}
+
+/**
+ * Delay before the next poll: exponential backoff with random jitter
+ * @param attempt - Number of polls made so far (starting at 1)
+ */
+export function getPollDelay(strategy: PollingStrategy, attempt: number, random: () => number = Math.random): number {
+  const backedOff = strategy.initialDelayMs * Math.pow(strategy.backoffFactor, Math.max(attempt - 1, 0));
+  const delay = Math.min(backedOff, strategy.maxDelayMs);
+  const spread = delay * strategy.jitter * (random() * 2 - 1);
+  return Math.round(Math.max(delay + spread, 0));
+}
+
+/**
+ * Overall polling timeout, sized from the audio duration when it is known
+ * @param audioDuration - Duration of the uploaded audio in milliseconds
+ */
+export function getPollTimeout(strategy: PollingStrategy, audioDuration?: number): number {
+  if (!audioDuration || audioDuration <= 0) {
+    return strategy.defaultTimeoutMs;
+  }
+  const timeout = audioDuration * strategy.timeoutMultiplier;
+  return Math.round(Math.min(Math.max(timeout, strategy.minTimeoutMs), strategy.maxTimeoutMs));
+}
+
+/**
+ * Short human-readable summary for the API info panel
+ */
+export function describePollingStrategy(strategy: PollingStrategy): string {
+  const seconds = (ms: number) => `${Number((ms / 1000).toFixed(1))}s`;
+  return `${seconds(strategy.initialDelayMs)} → ${seconds(strategy.maxDelayMs)}, ×${strategy.backoffFactor}, ±${Math.round(strategy.jitter * 100)}% jitter`;
+}
+
+/**
+ * Network errors, rate limiting and server errors are worth retrying;
+ * anything else (bad key, unknown transcript, cancellation) is not
+ */
+export function isTransientError(error: unknown): boolean {
+  if (!axios.isAxiosError(error) || axios.isCancel(error)) {
+    return false;
+  }
+  if (!error.response) {
+    return true;
+  }
+  const status = error.response.status;
+  return status === 429 || status >= 500;
+}
+
+/**
+ * Delay requested by the server via Retry-After (seconds or HTTP date), if any
+ */
+export function getRetryAfterDelay(error: unknown): number | undefined {
+  if (!axios.isAxiosError(error)) {
+    return undefined;
+  }
+  const retryAfter = error.response?.headers?.['retry-after'];
+  if (typeof retryAfter !== 'string' || !retryAfter) {
+    return undefined;
+  }
+  const seconds = Number(retryAfter);
+  if (Number.isFinite(seconds)) {
+    return Math.max(seconds * 1000, 0);
+  }
+  const date = Date.parse(retryAfter);
+  return Number.isNaN(date) ? undefined : Math.max(date - Date.now(), 0);
+}
@@ -0,0 +1,180 @@
+import { MeetingAnalytics, ParityScore, Speaker } from '../types';
+import { summarizeSpeakingTime } from './analytics';
+
+/**
+ * What a meeting report is built from: the same speakers and duration the stats view shows
+ */
+export interface MeetingReportInput {
+  title: string;
+  date?: number; // When the meeting was saved (timestamp)
+  speakers: Speaker[];
+  totalDuration: number; // in milliseconds
+  analytics?: MeetingAnalytics; // Used for the measured silence, like in the stats view
+  parity?: ParityScore;
+}
+
+interface ReportRow {
+  label: string;
+  speakingTime: number; // in milliseconds
+  percentageWithSilence: number;
+  percentageWithoutSilence: number;
+  phraseCount: number;
+}
+
+const formatTime = (ms: number): string => {
+  const totalSeconds = Math.floor(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}m ${seconds}s`;
+};
+
+const formatPercentage = (value: number): string => `${value.toFixed(1)}%`;
+
+const formatDate = (timestamp: number): string => new Date(timestamp).toLocaleString();
+
+const buildSummary = (input: MeetingReportInput) => {
+  const summary = summarizeSpeakingTime(input.speakers, input.totalDuration, input.analytics?.gaps?.silence);
+  const rows: ReportRow[] = summary.speakers.map(({ speaker, percentageWithSilence, percentageWithoutSilence }) => ({
+    label: speaker.label,
+    speakingTime: speaker.speakingTime,
+    percentageWithSilence,
+    percentageWithoutSilence,
+    phraseCount: speaker.allPhrases?.length || 0,
+  }));
+  return { summary, rows };
+};
+
+const escapeCsv = (value: string | number): string => {
+  // Speaker names are free text: keep spreadsheets from running ones like "=SUM(...)" as formulas
+  const text = typeof value === 'string' && /^[=+\-@\t\r]/.test(value) ? `'${value}` : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * One row per speaker: label, speaking time, % with and without silence, phrase count
+ */
+export function buildCsvReport(input: MeetingReportInput): string {
+  const { rows } = buildSummary(input);
+  const header = ['Speaker', 'Speaking time (s)', 'Speaking time', '% with silence', '% without silence', 'Phrases'];
+  const lines = rows.map(row => [
+    row.label,
+    (row.speakingTime / 1000).toFixed(1),
+    formatTime(row.speakingTime),
+    row.percentageWithSilence.toFixed(1),
+    row.percentageWithoutSilence.toFixed(1),
+    row.phraseCount,
+  ]);
+  return [header, ...lines].map(line => line.map(escapeCsv).join(',')).join('\r\n') + '\r\n';
+}
+
+const escapeMarkdown = (text: string): string => text.replace(/([\\|*_`[\]<>])/g, '\\$1');
+
+/**
+ * Summary for pasting into docs: meeting totals and a per-speaker table
+ */
+export function buildMarkdownReport(input: MeetingReportInput): string {
+  const { summary, rows } = buildSummary(input);
+  const lines = [`# ${escapeMarkdown(input.title)}`, ''];
+  if (input.date) {
+    lines.push(`- **Date:** ${formatDate(input.date)}`);
+  }
+  lines.push(
+    `- **Total duration:** ${formatTime(summary.totalDuration)}`,
+    `- **Speakers:** ${input.speakers.length}`,
+    `- **Speaking time:** ${formatTime(summary.totalSpeakingTime)}`
+  );
+  if (summary.silenceTime > 0) {
+    lines.push(`- **Silence:** ${formatTime(summary.silenceTime)} (${formatPercentage(summary.silencePercentage)})`);
+  }
+  if (input.parity) {
+    lines.push(`- **Talk parity:** ${input.parity.score} (${input.parity.verdict}, target ≥ ${input.parity.target})`);
+  }
+  lines.push(
+    '',
+    '| Speaker | Speaking time | % with silence | % without silence | Phrases |',
+    '| --- | ---: | ---: | ---: | ---: |',
+    ...rows.map(row =>
+      `| ${escapeMarkdown(row.label)} | ${formatTime(row.speakingTime)} | ${formatPercentage(row.percentageWithSilence)}`
+      + ` | ${formatPercentage(row.percentageWithoutSilence)} | ${row.phraseCount} |`
+    ),
+    ''
+  );
+  return lines.join('\n');
+}
+
+const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const REPORT_STYLES = `
+  body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; color: #222; margin: 2rem; }
+  h1 { font-size: 1.5rem; margin: 0 0 0.25rem; }
+  .meta { color: #666; font-size: 0.875rem; margin-bottom: 1.5rem; }
+  dl { display: grid; grid-template-columns: max-content auto; gap: 0.25rem 1rem; margin: 0 0 1.5rem; }
+  dt { color: #666; }
+  dd { margin: 0; font-weight: 600; }
+  table { width: 100%; border-collapse: collapse; font-size: 0.875rem; }
+  th, td { padding: 0.5rem; border-bottom: 1px solid #ddd; text-align: right; }
+  th:first-child, td:first-child { text-align: left; }
+  th { background: #f5f5f5; }
+  .bar { height: 6px; background: #eee; border-radius: 3px; margin-top: 0.25rem; }
+  .bar span { display: block; height: 100%; background: #4CAF50; border-radius: 3px; }
+  footer { margin-top: 2rem; color: #999; font-size: 0.75rem; }
+  * { -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+  @page { margin: 1.5cm; }
+  @media print { body { margin: 0; } tr { break-inside: avoid; } }
+`;
+
+/**
+ * Standalone, print-friendly HTML page; the browser's print dialog can save it as PDF
+ */
+export function buildHtmlReport(input: MeetingReportInput): string {
+  const { summary, rows } = buildSummary(input);
+  const facts: [string, string][] = [
+    ['Total duration', formatTime(summary.totalDuration)],
+    ['Speakers', String(input.speakers.length)],
+    ['Speaking time', formatTime(summary.totalSpeakingTime)],
+  ];
+  if (summary.silenceTime > 0) {
+    facts.push(['Silence', `${formatTime(summary.silenceTime)} (${formatPercentage(summary.silencePercentage)})`]);
+  }
+  if (input.parity) {
+    facts.push(['Talk parity', `${input.parity.score} (${input.parity.verdict}, target ≥ ${input.parity.target})`]);
+  }
+
+  const title = escapeHtml(input.title);
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${title}</title>
+<style>${REPORT_STYLES}</style>
+</head>
+<body>
+<h1>${title}</h1>
+<div class="meta">Speaking time report${input.date ? ` • ${escapeHtml(formatDate(input.date))}` : ''}</div>
+<dl>
+${facts.map(([label, value]) => `<dt>${escapeHtml(label)}</dt><dd>${escapeHtml(value)}</dd>`).join('\n')}
+</dl>
+<table>
+<thead>
+<tr><th>Speaker</th><th>Speaking time</th><th>% with silence</th><th>% without silence</th><th>Phrases</th></tr>
+</thead>
+<tbody>
+${rows.map(row => `<tr>
+<td>${escapeHtml(row.label)}<div class="bar"><span style="width: ${Math.min(row.percentageWithSilence, 100).toFixed(1)}%"></span></div></td>
+<td>${formatTime(row.speakingTime)}</td>
+<td>${formatPercentage(row.percentageWithSilence)}</td>
+<td>${formatPercentage(row.percentageWithoutSilence)}</td>
+<td>${row.phraseCount}</td>
+</tr>`).join('\n')}
+</tbody>
+</table>
+<footer>Generated by Talk parity on ${escapeHtml(formatDate(Date.now()))}</footer>
+</body>
+</html>
+`;
+}
@@ -0,0 +1,71 @@
+import { DiarizationSegment, SegmentEdit, SegmentReassignment, SpeakerMerge, TranscriptWord } from '../types';
+
+export interface SpeakerData {
+  segments: DiarizationSegment[];
+  words?: TranscriptWord[];
+}
+
+/**
+ * Relabel the merged speakers' segments and words as the target speaker
+ */
+export function applySpeakerMerge(data: SpeakerData, merge: SpeakerMerge): SpeakerData {
+  const merged = new Set(merge.merged);
+  const relabel = <T extends { speaker?: string }>(item: T): T =>
+    item.speaker && merged.has(item.speaker) ? { ...item, speaker: merge.target } : item;
+  return {
+    segments: data.segments.map(relabel),
+    words: data.words?.map(relabel),
+  };
+}
+
+/**
+ * Move one segment, and the words spoken in it, to another speaker
+ * Returns the data unchanged if the segment is not found
+ */
+export function applySegmentReassignment(data: SpeakerData, reassignment: SegmentReassignment): SpeakerData {
+  const { start, end, from, to } = reassignment;
+  const index = data.segments.findIndex(segment =>
+    segment.start === start && segment.end === end && segment.speaker === from
+  );
+  if (index === -1) {
+    return data;
+  }
+  const segments = [...data.segments];
+  segments[index] = { ...segments[index], speaker: to };
+  return {
+    segments,
+    words: data.words?.map(word => {
+      const middle = (word.start + word.end) / 2;
+      return word.speaker === from && middle >= start && middle <= end ? { ...word, speaker: to } : word;
+    }),
+  };
+}
+
+/**
+ * Replay edits in the order they were made (e.g. after the transcript was re-fetched)
+ */
+export function applySegmentEdits(data: SpeakerData, edits: SegmentEdit[] = []): SpeakerData {
+  return edits.reduce((current, edit) => {
+    if (edit.type === 'merge') return applySpeakerMerge(current, edit);
+    if (edit.type === 'reassign') return applySegmentReassignment(current, edit);
+    return data;
+  }, data);
+}
+
+/**
+ * Whether the result differs from the diarization output (edits made since the last restore)
+ */
+export const hasActiveSegmentEdits = (edits: SegmentEdit[] = []): boolean =>
+  edits.length > 0 && edits[edits.length - 1].type !== 'restore';
+
+/**
+ * Label for a speaker added by hand that doesn't clash with the provider's labels
+ */
+export function createSpeakerLabel(segments: DiarizationSegment[]): string {
+  const labels = new Set(segments.map(segment => segment.speaker));
+  let number = labels.size + 1;
+  while (labels.has(`Speaker ${number}`)) {
+    number++;
+  }
+  return `Speaker ${number}`;
+}
@@ -0,0 +1,160 @@
+import { DiarizationSegment, Speaker } from '../types';
+
+// Common caption limits: two lines of up to 42 characters per cue
+const MAX_LINE_LENGTH = 42;
+const MAX_CUE_LINES = 2;
+
+interface Cue {
+  start: number; // in seconds
+  end: number; // in seconds
+  speaker: string; // Display label
+  text: string;
+}
+
+/**
+ * Map provider labels in segments to the names shown in the stats view (renamed labels win)
+ */
+const buildLabelMap = (speakers: Speaker[]): Map<string, string> =>
+  new Map(speakers.map(speaker => [speaker.sourceLabel || speaker.label, speaker.label]));
+
+/**
+ * Segments that have text, in time order, with the display label applied
+ */
+const toSpokenSegments = (segments: DiarizationSegment[], speakers: Speaker[]): Cue[] => {
+  const labels = buildLabelMap(speakers);
+  return segments
+    .map(segment => ({
+      start: segment.start,
+      end: segment.end,
+      speaker: labels.get(segment.speaker) || segment.speaker,
+      text: segment.text?.trim() || '',
+    }))
+    .filter(segment => segment.text)
+    .sort((a, b) => a.start - b.start);
+};
+
+/**
+ * Split text into chunks of at most maxLength characters on word boundaries
+ */
+const splitText = (text: string, maxLength: number): string[] => {
+  const chunks: string[] = [];
+  let current = '';
+  text.split(/\s+/).filter(Boolean).forEach(word => {
+    if (current && current.length + 1 + word.length > maxLength) {
+      chunks.push(current);
+      current = word;
+    } else {
+      current = current ? `${current} ${word}` : word;
+    }
+  });
+  if (current) {
+    chunks.push(current);
+  }
+  return chunks;
+};
+
+/**
+ * Split text into cue texts that wrap to at most MAX_CUE_LINES lines
+ * once the prefix shown in front of every cue is added
+ */
+const splitCueText = (text: string, prefix: string): string[] => {
+  const prefixWords = prefix.split(/\s+/).filter(Boolean);
+  let words = text.split(/\s+/).filter(Boolean);
+  const chunks: string[] = [];
+  while (words.length > 0) {
+    const lines = splitText([...prefixWords, ...words].join(' '), MAX_LINE_LENGTH).slice(0, MAX_CUE_LINES);
+    // At least one word per cue, even if a long prefix fills the lines by itself
+    const count = Math.max(lines.join(' ').split(' ').length - prefixWords.length, 1);
+    chunks.push(words.slice(0, count).join(' '));
+    words = words.slice(count);
+  }
+  return chunks;
+};
+
+const speakerPrefix = (speaker: string): string => `${speaker}: `;
+
+/**
+ * Turn segments into caption cues; long segments are split into several cues,
+ * with time shared out by text length. With withSpeakerPrefix, room is left for the speaker name.
+ */
+const buildCues = (segments: DiarizationSegment[], speakers: Speaker[], withSpeakerPrefix: boolean = false): Cue[] => {
+  const cues: Cue[] = [];
+  toSpokenSegments(segments, speakers).forEach(segment => {
+    const chunks = splitCueText(segment.text, withSpeakerPrefix ? speakerPrefix(segment.speaker) : '');
+    const totalLength = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+    const duration = Math.max(segment.end - segment.start, 0);
+    let start = segment.start;
+    chunks.forEach((chunk, index) => {
+      const end = index === chunks.length - 1 ? segment.end : start + duration * (chunk.length / totalLength);
+      cues.push({ start, end, speaker: segment.speaker, text: chunk });
+      start = end;
+    });
+  });
+  return cues;
+};
+
+/**
+ * HH:MM:SS plus milliseconds after the given separator (',' for SRT, '.' for WebVTT)
+ */
+const formatTimestamp = (seconds: number, separator: ',' | '.'): string => {
+  const totalMs = Math.max(Math.round(seconds * 1000), 0);
+  const hours = Math.floor(totalMs / 3_600_000);
+  const minutes = Math.floor((totalMs % 3_600_000) / 60_000);
+  const secs = Math.floor((totalMs % 60_000) / 1000);
+  const ms = totalMs % 1000;
+  const pad = (value: number, length: number = 2) => value.toString().padStart(length, '0');
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${separator}${pad(ms, 3)}`;
+};
+
+const wrapLines = (text: string): string => splitText(text, MAX_LINE_LENGTH).join('\n');
+
+/**
+ * SubRip subtitles; the speaker name prefixes each cue
+ */
+export function buildSrt(segments: DiarizationSegment[], speakers: Speaker[]): string {
+  return buildCues(segments, speakers, true)
+    .map((cue, index) => [
+      String(index + 1),
+      `${formatTimestamp(cue.start, ',')} --> ${formatTimestamp(cue.end, ',')}`,
+      wrapLines(`${speakerPrefix(cue.speaker)}${cue.text}`),
+    ].join('\n'))
+    .join('\n\n') + '\n';
+}
+
+const escapeVtt = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+/**
+ * WebVTT subtitles with <v Speaker> voice tags, so players can style or show speakers
+ */
+export function buildWebVtt(segments: DiarizationSegment[], speakers: Speaker[]): string {
+  const cues = buildCues(segments, speakers).map(cue => [
+    `${formatTimestamp(cue.start, '.')} --> ${formatTimestamp(cue.end, '.')}`,
+    `<v ${escapeVtt(cue.speaker)}>${escapeVtt(wrapLines(cue.text))}`,
+  ].join('\n'));
+  return ['WEBVTT', ...cues].join('\n\n') + '\n';
+}
+
+/**
+ * Readable transcript: one paragraph per speaker turn, prefixed with its start time and speaker
+ */
+export function buildPlainTranscript(segments: DiarizationSegment[], speakers: Speaker[]): string {
+  const paragraphs: { start: number; speaker: string; texts: string[] }[] = [];
+  toSpokenSegments(segments, speakers).forEach(segment => {
+    const last = paragraphs[paragraphs.length - 1];
+    if (last && last.speaker === segment.speaker) {
+      last.texts.push(segment.text);
+    } else {
+      paragraphs.push({ start: segment.start, speaker: segment.speaker, texts: [segment.text] });
+    }
+  });
+  return paragraphs
+    .map(paragraph => `[${formatTimestamp(paragraph.start, '.').slice(0, 8)}] ${paragraph.speaker}: ${paragraph.texts.join(' ')}`)
+    .join('\n\n') + '\n';
+}
+
+/**
+ * Whether segments carry text to export (on-device diarization has none)
+ */
+export const hasTranscriptText = (segments: DiarizationSegment[] = []): boolean =>
+  segments.some(segment => !!segment.text?.trim());
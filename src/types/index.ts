@@ -1,10 +1,28 @@
 export interface Speaker {
   id: string;
   label: string;
-  speakingTime: number; // in milliseconds
+  speakingTime: number; // in milliseconds, with overlapped time split between the simultaneous speakers
   percentage: number;
   speechExamples: string[]; // Sample quotes from this speaker (first, middle, last)
   allPhrases: string[]; // All phrases/utterances from this speaker
+  phraseTimings?: PhraseTiming[]; // Where each of allPhrases was said, same order (missing for older results)
+  sourceLabel?: string; // Speaker label from the provider, kept when the speaker is renamed
+  overlapTime?: number; // Time this speaker spoke while someone else also spoke, in ms
+}
+
+export interface PhraseTiming {
+  start: number; // in seconds
+  end: number; // in seconds
+}
+
+export type PercentageBasis = 'audio' | 'speech';
+
+/**
+ * Settings for turning diarization segments into speaker statistics
+ */
+export interface StatsOptions {
+  minPhraseLength: number; // Shorter segments are not listed as phrases (characters)
+  percentageBasis: PercentageBasis; // 'audio' = share of total duration incl. silence, 'speech' = share of speaking time
 }
 
 export interface DiarizationSegment {
@@ -14,6 +32,215 @@ export interface DiarizationSegment {
   text?: string; // Transcript text for this segment
 }
 
+export interface SpeakerTurnStats {
+  speaker: string; // Speaker label from the provider (matches Speaker.sourceLabel)
+  turns: number; // Consecutive segments of the same speaker count as one turn
+  turnShare: number; // Percentage of all turns
+  meanTurnLength: number; // in milliseconds
+  medianTurnLength: number; // in milliseconds
+  longestTurn: {
+    duration: number; // in milliseconds
+    start: number; // in seconds
+    end: number; // in seconds
+  };
+}
+
+export interface TurnTakingStats {
+  totalTurns: number;
+  speakers: SpeakerTurnStats[];
+}
+
+export interface InterruptionStats {
+  interrupter: string; // Speaker who started talking while the other was still speaking
+  interrupted: string;
+  count: number;
+  overlapTime: number; // in milliseconds
+}
+
+export interface SpeakerOverlapStats {
+  speaker: string;
+  overlapTime: number; // Time this speaker talked over someone else (or was talked over), in ms
+  interruptionsMade: number;
+  interruptionsReceived: number;
+}
+
+export interface OverlapStats {
+  source: 'segments' | 'words'; // Timings used for detection
+  totalOverlapTime: number; // Time with two or more speakers at once, in ms
+  overlapCount: number;
+  speakers: SpeakerOverlapStats[];
+  interruptions: InterruptionStats[]; // Per speaker pair, most frequent first
+}
+
+export interface SilenceBreakdown {
+  leadIn: number; // Before the first speech, in ms
+  tail: number; // After the last speech, in ms
+  intraSpeakerPauses: number; // Pauses between segments of the same speaker, in ms
+  interSpeakerGaps: number; // Gaps between different speakers, in ms
+  total: number; // Sum of the above, in ms
+}
+
+export interface SpeakerTimeShare {
+  speaker: Speaker;
+  percentageWithSilence: number; // Speaker.percentage, as shown in the "With Silence" bar
+  percentageWithoutSilence: number; // Share of the total (attributed) speaking time
+}
+
+export interface SpeakingTimeSummary {
+  totalDuration: number; // in milliseconds
+  totalSpeakingTime: number; // Attributed speaking time of all speakers, in milliseconds
+  silenceTime: number; // in milliseconds
+  silencePercentage: number;
+  speakers: SpeakerTimeShare[];
+}
+
+export interface SpeakerLatencyStats {
+  speaker: string;
+  responses: number; // Turns taken after another speaker's turn
+  meanLatency: number; // in ms (0 when starting before the previous speaker finished)
+  medianLatency: number; // in ms
+}
+
+export interface GapStats {
+  silence: SilenceBreakdown;
+  pauseCount: number;
+  gapCount: number;
+  speakers: SpeakerLatencyStats[]; // Fastest responders first
+}
+
+export interface SpeakerRateStats {
+  speaker: string;
+  wordCount: number;
+  wordShare: number; // Percentage of all words
+  timeShare: number; // Percentage of speaking time (overlaps split), for comparison with wordShare
+  wordsPerMinute: number; // Over the speaker's own speaking time
+  rateOverTime: (number | null)[]; // WPM per time bucket, null where the speaker barely spoke
+}
+
+export interface SpeakingRateStats {
+  source: 'segments' | 'words'; // Counted from segment text or word-level data
+  totalWords: number;
+  bucketDuration: number; // Length of one rateOverTime point, in ms
+  speakers: SpeakerRateStats[]; // Most words first
+}
+
+export interface SpeakerQuestionStats {
+  speaker: string;
+  asked: number;
+  answered: number; // Own questions followed by another speaker's turn
+  unanswered: number;
+  answersGiven: number; // Other speakers' questions this speaker took the next turn after
+}
+
+export interface QuestionStats {
+  totalQuestions: number;
+  answeredCount: number;
+  speakers: SpeakerQuestionStats[]; // Most questions asked first
+}
+
+/**
+ * Speaking time per speaker within one slice of the meeting (overlaps split evenly)
+ */
+export interface TimelineBucket {
+  start: number; // in ms
+  end: number; // in ms
+  speakingTime: Record<string, number>; // in ms, keyed by DiarizationSegment.speaker
+}
+
+export type ParityMetric = 'gini' | 'entropy' | 'ratio';
+export type MeetingTypeId = 'discussion' | 'standup' | 'brainstorm' | 'one-on-one' | 'interview' | 'presentation';
+export type ParityVerdict = 'balanced' | 'uneven' | 'dominated';
+
+export interface ParitySettings {
+  metric: ParityMetric;
+  meetingType: MeetingTypeId; // Used for new results
+  targets: Partial<Record<MeetingTypeId, number>>; // Minimum score (0-100) to count as balanced
+}
+
+/**
+ * Single balance number for a meeting, 100 = everyone spoke equally
+ */
+export interface ParityScore {
+  metric: ParityMetric;
+  value: number | null; // Raw metric value (null for an infinite max/min ratio)
+  score: number; // 0-100
+  meetingType: MeetingTypeId;
+  target: number;
+  verdict: ParityVerdict;
+}
+
+export type FillerKind = 'filler' | 'hedge';
+
+/**
+ * Words and phrases to look for in one language (matched case-insensitively as whole words)
+ */
+export interface FillerLexicon {
+  fillers: string[]; // e.g. "um", "you know"
+  hedges: string[]; // e.g. "I think", "maybe"
+}
+
+export type FillerLexicons = Record<string, FillerLexicon>; // Keyed by language code ('en', 'uk')
+
+export interface FillerTermCount {
+  term: string;
+  kind: FillerKind;
+  language: string;
+  count: number;
+}
+
+export interface SpeakerFillerStats {
+  speakerId: string;
+  fillerCount: number;
+  hedgeCount: number;
+  fillersPerMinute: number; // Per minute of the speaker's speaking time
+  hedgesPerMinute: number;
+  terms: FillerTermCount[]; // Most frequent first
+}
+
+/**
+ * Metrics derived from the ordered diarization segments
+ */
+export interface MeetingAnalytics {
+  turnTaking?: TurnTakingStats;
+  overlap?: OverlapStats;
+  gaps?: GapStats;
+  speakingRate?: SpeakingRateStats; // Only when the transcript has text
+  questions?: QuestionStats; // Only when the transcript has text
+}
+
+export interface TranscriptWord {
+  text: string;
+  start: number; // in seconds
+  end: number; // in seconds
+  confidence?: number; // 0-1
+  speaker?: string; // Same label format as DiarizationSegment.speaker
+}
+
+export type DiarizationProviderId = 'assemblyai' | 'local';
+
+export type SpeechModel = 'best' | 'nano';
+export type WordBoostLevel = 'low' | 'default' | 'high';
+
+/**
+ * Per-run settings sent to the diarization provider
+ * (providers ignore what they don't support)
+ */
+export interface TranscriptionOptions {
+  speakersExpected?: number; // Exact number of speakers
+  minSpeakers?: number; // Speaker range, used when speakersExpected is not set
+  maxSpeakers?: number;
+  languageCode?: string; // e.g. 'en', 'de'; missing = auto-detect
+  speechModel?: SpeechModel; // missing = provider default
+  wordBoost?: string[]; // Custom vocabulary
+  boostParam?: WordBoostLevel;
+}
+
+export interface ProviderInfo {
+  id: DiarizationProviderId;
+  name: string;
+  config: Record<string, string | number | boolean>; // Non-secret provider settings used for the run
+}
+
 export interface ApiRequestInfo {
   uploadUrl?: string;
   uploadRequestUrl?: string; // The URL used to upload the file
@@ -25,8 +252,13 @@ export interface ApiRequestInfo {
   transcriptStatus?: string;
   pollAttempts?: number;
   pollStartTime?: number; // Timestamp when polling started
+  pollStrategy?: string; // Summary of the polling backoff settings
+  pollTimeout?: number; // Polling gives up after this many ms
+  nextPollDelay?: number; // Delay before the next poll in ms
+  pollRetries?: number; // Transient poll errors that were retried
   processingStartTime?: number; // Timestamp when processing started
   totalProcessingTime?: number;
+  provider?: ProviderInfo; // Provider running the job (on-device when no API key was set)
 }
 
 export interface RecordingState {
@@ -34,10 +266,57 @@ export interface RecordingState {
   isProcessing: boolean;
   duration: number; // in milliseconds
   speakers: Speaker[];
+  segments: DiarizationSegment[]; // Raw diarization segments behind the stats
+  words?: TranscriptWord[]; // Word-level timings, if the provider returns them
   error: string | null;
   apiInfo: ApiRequestInfo | null;
+  provider: ProviderInfo | null;
+  transcriptionOptions?: TranscriptionOptions; // Options the current result was produced with
+  analytics?: MeetingAnalytics;
+  parity?: ParityScore;
+}
+
+/**
+ * Result before a speaker merge or phrase reassignment, kept for undo
+ */
+export interface SpeakerEditSnapshot {
+  description: string; // What the edit did, e.g. "Merge Speaker C into Speaker A"
+  state: Pick<RecordingState, 'speakers' | 'segments' | 'words' | 'analytics' | 'parity'>;
+  history: Pick<HistoryItem, 'segmentEdits' | 'originalSegments' | 'originalWords'>; // Audit trail before the edit
+}
+
+export interface PendingJob {
+  transcriptId: string; // Provider job ID returned by POST /transcript
+  uploadUrl: string; // Uploaded audio reference
+  startTime: number; // When the job was started
+  sourceName: string; // File name or "recorded audio"
+  provider: ProviderInfo; // Provider and config the job was started with
+  uploadSize?: number;
+  audioDuration?: number; // in milliseconds, if known when the job was started
+  transcriptionOptions?: TranscriptionOptions;
+}
+
+export interface SpeakerMerge {
+  target: string; // Speaker label (as in segments) that the others were merged into
+  merged: string[]; // Speaker labels that now belong to the target
+}
+
+export interface SegmentReassignment {
+  start: number; // Segment start, in seconds (identifies the segment with end and from)
+  end: number; // in seconds
+  from: string; // Speaker label (as in segments) before the change
+  to: string; // Speaker label after the change; may be a new speaker
+  text?: string; // Segment text, for reading the audit trail
 }
 
+/**
+ * One manual change to the diarization output, in the order it was made
+ */
+export type SegmentEdit =
+  | ({ type: 'merge'; editedAt: number } & SpeakerMerge)
+  | ({ type: 'reassign'; editedAt: number } & SegmentReassignment)
+  | { type: 'restore'; editedAt: number }; // Back to the diarization output; earlier edits stay on record
+
 export interface HistoryItem {
   id: string; // Unique identifier for the history item
   name: string; // User-provided name for the recording
@@ -46,5 +325,29 @@ export interface HistoryItem {
   speakers: Speaker[]; // Speaker data
   duration: number; // Total duration in milliseconds
   apiInfo?: ApiRequestInfo; // Optional API info
+  provider?: ProviderInfo; // Diarization provider and config used (missing for older items)
+  statsOptions?: StatsOptions; // Settings used for the last stats calculation (missing = defaults)
+  recomputedAt?: number; // When stats were last recomputed from the re-fetched transcript
+  segments?: DiarizationSegment[]; // Raw segments (missing for older items or if trimmed by localStorage-era versions)
+  words?: TranscriptWord[]; // Word-level data (missing for older items or if trimmed by localStorage-era versions)
+  detailTrimmed?: boolean; // Words and/or segments were dropped to fit the old localStorage budget
+  transcriptionOptions?: TranscriptionOptions; // Per-run options the transcript was produced with
+  analytics?: MeetingAnalytics; // Turn-taking and other derived metrics (missing for older items without segments)
+  parity?: ParityScore; // Talk-parity score, kept for trending across meetings
+  audioSize?: number; // Size of the audio kept in IndexedDB, in bytes (missing = no audio stored)
+  schemaVersion?: number; // Storage schema version the item was written with (missing = 1, from localStorage)
+  segmentEdits?: SegmentEdit[]; // Audit trail of speaker merges and reassignments, already applied to segments and words
+  originalSegments?: DiarizationSegment[]; // Diarization output before the first edit, for restoring it
+  originalWords?: TranscriptWord[]; // Word-level data before the first edit
 }
 
+export interface HistoryBundle {
+  format: 'talk-parity-history';
+  version: number; // Bundle format version
+  exportedAt: string; // ISO date
+  schemaVersion: number; // HistoryItem schema version of the items
+  items: HistoryItem[]; // Stored audio is not included
+}
+
+export type HistoryImportMode = 'merge' | 'replace'; // What to do with items that are already in history
+
@@ -2,6 +2,8 @@
 
 interface ImportMetaEnv {
   readonly VITE_ASSEMBLY_AI_API_KEY?: string;
+  readonly VITE_ASSEMBLY_AI_BASE_URL?: string;
+  readonly VITE_ASSEMBLY_AI_POLLING?: string;
 }
 
 interface ImportMeta {
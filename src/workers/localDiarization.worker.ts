@@ -0,0 +1,549 @@
+/**
+ * On-device speaker diarization worker.
+ *
+ * Pipeline:
+ * 1. Energy-based voice activity detection with an adaptive noise floor
+ * 2. MFCC features per frame, summarized into sliding-window speaker embeddings
+ * 3. k-means clustering of the embeddings (speaker count picked by silhouette score)
+ * 4. Frame labels smoothed into DiarizationSegment[] (no transcript text)
+ */
+import type { DiarizationSegment } from '../types';
+
+export interface LocalDiarizationOptions {
+  maxSpeakers: number;
+  minSpeakers?: number; // At least this many clusters (skips the single-speaker fallback when > 1)
+}
+
+export interface LocalDiarizationRequest {
+  samples: Float32Array; // Mono PCM samples
+  sampleRate: number;
+  options: LocalDiarizationOptions;
+}
+
+export type LocalDiarizationResponse =
+  | { type: 'progress'; stage: 'vad' | 'features' | 'clustering' | 'segments'; progress: number }
+  | { type: 'result'; segments: DiarizationSegment[]; audioDuration: number }
+  | { type: 'error'; message: string };
+
+const FRAME_MS = 25;
+const HOP_MS = 10;
+const FFT_SIZE = 512;
+const MEL_BANDS = 26;
+const MFCC_COUNT = 13; // c0 (energy) is dropped from embeddings
+const SPEECH_THRESHOLD_DB = 10; // dB above the noise floor
+const MIN_SPEECH_MS = 250;
+const MAX_GAP_MS = 300;
+const EMBEDDING_WINDOW_MS = 1500;
+const EMBEDDING_HOP_MS = 750;
+const MIN_SEGMENT_MS = 500;
+const MIN_SILHOUETTE = 0.12; // Below this, a single speaker is assumed
+const SILHOUETTE_SAMPLE_SIZE = 600;
+
+const post = (response: LocalDiarizationResponse, transfer: Transferable[] = []) => {
+  self.postMessage(response, { transfer });
+};
+
+self.onmessage = (event: MessageEvent<LocalDiarizationRequest>) => {
+  try {
+    const { samples, sampleRate, options } = event.data;
+    const segments = diarize(samples, sampleRate, options);
+    post({ type: 'result', segments, audioDuration: (samples.length / sampleRate) * 1000 });
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : 'Local diarization failed' });
+  }
+};
+
+function diarize(samples: Float32Array, sampleRate: number, options: LocalDiarizationOptions): DiarizationSegment[] {
+  const frameLength = Math.round((sampleRate * FRAME_MS) / 1000);
+  const hopLength = Math.round((sampleRate * HOP_MS) / 1000);
+  const frameCount = samples.length < frameLength ? 0 : Math.floor((samples.length - frameLength) / hopLength) + 1;
+
+  if (frameCount === 0) {
+    throw new Error('Audio is too short for on-device diarization');
+  }
+
+  // Step 1: Voice activity detection
+  post({ type: 'progress', stage: 'vad', progress: 0 });
+  const energies = frameEnergies(samples, frameCount, frameLength, hopLength);
+  const speech = detectSpeech(energies);
+
+  const speechFrameCount = speech.reduce((count, isSpeech) => count + (isSpeech ? 1 : 0), 0);
+  if (speechFrameCount === 0) {
+    throw new Error('No speech was detected in the audio.');
+  }
+
+  // Step 2: Features for speech frames only
+  const mfccs = new Array<Float32Array | null>(frameCount).fill(null);
+  const melFilters = createMelFilterbank(sampleRate);
+  const window = hammingWindow(frameLength);
+  for (let frame = 0; frame < frameCount; frame++) {
+    if (speech[frame]) {
+      mfccs[frame] = computeMfcc(samples, frame * hopLength, frameLength, window, melFilters);
+    }
+    if (frame % 5000 === 0) {
+      post({ type: 'progress', stage: 'features', progress: frame / frameCount });
+    }
+  }
+
+  const { embeddings, centers } = buildEmbeddings(mfccs);
+  if (embeddings.length === 0) {
+    throw new Error('No speech was detected in the audio.');
+  }
+
+  // Step 3: Cluster embeddings into speakers
+  post({ type: 'progress', stage: 'clustering', progress: 0 });
+  normalizeColumns(embeddings);
+  const labels = clusterSpeakers(embeddings, Math.max(1, options.minSpeakers || 1), Math.max(1, options.maxSpeakers));
+
+  // Step 4: Label speech frames with the nearest embedding window and build segments
+  post({ type: 'progress', stage: 'segments', progress: 0 });
+  const frameLabels = new Int32Array(frameCount).fill(-1);
+  let windowIndex = 0;
+  for (let frame = 0; frame < frameCount; frame++) {
+    if (!speech[frame]) {
+      continue;
+    }
+    while (
+      windowIndex < centers.length - 1 &&
+      Math.abs(centers[windowIndex + 1] - frame) <= Math.abs(centers[windowIndex] - frame)
+    ) {
+      windowIndex++;
+    }
+    frameLabels[frame] = labels[windowIndex];
+  }
+
+  return buildSegments(frameLabels, HOP_MS / 1000);
+}
+
+/**
+ * RMS energy per frame in dB
+ */
+function frameEnergies(samples: Float32Array, frameCount: number, frameLength: number, hopLength: number): Float32Array {
+  const energies = new Float32Array(frameCount);
+  for (let frame = 0; frame < frameCount; frame++) {
+    const offset = frame * hopLength;
+    let sum = 0;
+    for (let i = 0; i < frameLength; i++) {
+      const sample = samples[offset + i];
+      sum += sample * sample;
+    }
+    energies[frame] = 10 * Math.log10(sum / frameLength + 1e-10);
+  }
+  return energies;
+}
+
+/**
+ * Mark frames as speech when their energy rises clearly above the noise floor,
+ * then bridge short pauses and drop blips that are too short to be speech
+ */
+function detectSpeech(energies: Float32Array): boolean[] {
+  const sorted = Array.from(energies).sort((a, b) => a - b);
+  const noiseFloor = sorted[Math.floor(sorted.length * 0.1)];
+  const peak = sorted[Math.floor(sorted.length * 0.99)];
+  // Keep the threshold between the floor and the loudest parts even for very quiet recordings
+  const threshold = Math.min(noiseFloor + SPEECH_THRESHOLD_DB, (noiseFloor + peak) / 2);
+
+  const speech = Array.from(energies, energy => energy > threshold);
+
+  const maxGapFrames = Math.round(MAX_GAP_MS / HOP_MS);
+  const minSpeechFrames = Math.round(MIN_SPEECH_MS / HOP_MS);
+
+  // Bridge short gaps between speech regions
+  let lastSpeech = -1;
+  for (let frame = 0; frame < speech.length; frame++) {
+    if (!speech[frame]) {
+      continue;
+    }
+    if (lastSpeech >= 0 && frame - lastSpeech > 1 && frame - lastSpeech <= maxGapFrames) {
+      speech.fill(true, lastSpeech + 1, frame);
+    }
+    lastSpeech = frame;
+  }
+
+  // Remove speech regions that are too short
+  let regionStart = -1;
+  for (let frame = 0; frame <= speech.length; frame++) {
+    const isSpeech = frame < speech.length && speech[frame];
+    if (isSpeech && regionStart < 0) {
+      regionStart = frame;
+    } else if (!isSpeech && regionStart >= 0) {
+      if (frame - regionStart < minSpeechFrames) {
+        speech.fill(false, regionStart, frame);
+      }
+      regionStart = -1;
+    }
+  }
+
+  return speech;
+}
+
+function hammingWindow(length: number): Float32Array {
+  const window = new Float32Array(length);
+  for (let i = 0; i < length; i++) {
+    window[i] = 0.54 - 0.46 * Math.cos((2 * Math.PI * i) / (length - 1));
+  }
+  return window;
+}
+
+const hzToMel = (hz: number) => 2595 * Math.log10(1 + hz / 700);
+const melToHz = (mel: number) => 700 * (10 ** (mel / 2595) - 1);
+
+/**
+ * Triangular mel filters over the FFT power spectrum
+ */
+function createMelFilterbank(sampleRate: number): Float32Array[] {
+  const bins = FFT_SIZE / 2 + 1;
+  const minMel = hzToMel(80);
+  const maxMel = hzToMel(Math.min(7600, sampleRate / 2));
+  const points = Array.from({ length: MEL_BANDS + 2 }, (_, i) =>
+    Math.floor(((FFT_SIZE + 1) * melToHz(minMel + ((maxMel - minMel) * i) / (MEL_BANDS + 1))) / sampleRate)
+  );
+
+  return Array.from({ length: MEL_BANDS }, (_, band) => {
+    const filter = new Float32Array(bins);
+    const [left, center, right] = [points[band], points[band + 1], points[band + 2]];
+    for (let bin = left; bin < center; bin++) {
+      filter[bin] = (bin - left) / Math.max(1, center - left);
+    }
+    for (let bin = center; bin < right; bin++) {
+      filter[bin] = (right - bin) / Math.max(1, right - center);
+    }
+    return filter;
+  });
+}
+
+function computeMfcc(
+  samples: Float32Array,
+  offset: number,
+  frameLength: number,
+  window: Float32Array,
+  melFilters: Float32Array[],
+): Float32Array {
+  const real = new Float64Array(FFT_SIZE);
+  const imag = new Float64Array(FFT_SIZE);
+  const length = Math.min(frameLength, FFT_SIZE);
+  for (let i = 0; i < length; i++) {
+    real[i] = samples[offset + i] * window[i];
+  }
+  fft(real, imag);
+
+  const bins = FFT_SIZE / 2 + 1;
+  const logMel = new Float64Array(MEL_BANDS);
+  for (let band = 0; band < MEL_BANDS; band++) {
+    const filter = melFilters[band];
+    let energy = 0;
+    for (let bin = 0; bin < bins; bin++) {
+      if (filter[bin] > 0) {
+        energy += filter[bin] * (real[bin] * real[bin] + imag[bin] * imag[bin]);
+      }
+    }
+    logMel[band] = Math.log(energy + 1e-10);
+  }
+
+  // DCT-II of the log mel energies, skipping c0
+  const mfcc = new Float32Array(MFCC_COUNT - 1);
+  for (let k = 1; k < MFCC_COUNT; k++) {
+    let sum = 0;
+    for (let band = 0; band < MEL_BANDS; band++) {
+      sum += logMel[band] * Math.cos((Math.PI * k * (band + 0.5)) / MEL_BANDS);
+    }
+    mfcc[k - 1] = sum;
+  }
+  return mfcc;
+}
+
+/**
+ * In-place iterative radix-2 FFT
+ */
+function fft(real: Float64Array, imag: Float64Array): void {
+  const n = real.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) {
+      j ^= bit;
+    }
+    j ^= bit;
+    if (i < j) {
+      [real[i], real[j]] = [real[j], real[i]];
+      [imag[i], imag[j]] = [imag[j], imag[i]];
+    }
+  }
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = (-2 * Math.PI) / size;
+    const wReal = Math.cos(angle);
+    const wImag = Math.sin(angle);
+    for (let start = 0; start < n; start += size) {
+      let curReal = 1;
+      let curImag = 0;
+      for (let k = 0; k < size / 2; k++) {
+        const a = start + k;
+        const b = a + size / 2;
+        const tReal = real[b] * curReal - imag[b] * curImag;
+        const tImag = real[b] * curImag + imag[b] * curReal;
+        real[b] = real[a] - tReal;
+        imag[b] = imag[a] - tImag;
+        real[a] += tReal;
+        imag[a] += tImag;
+        const nextReal = curReal * wReal - curImag * wImag;
+        curImag = curReal * wImag + curImag * wReal;
+        curReal = nextReal;
+      }
+    }
+  }
+}
+
+/**
+ * Summarize speech-frame MFCCs in sliding windows (mean + standard deviation)
+ * Returns embeddings and the center frame of each window
+ */
+function buildEmbeddings(mfccs: (Float32Array | null)[]): { embeddings: Float64Array[]; centers: number[] } {
+  const windowFrames = Math.round(EMBEDDING_WINDOW_MS / HOP_MS);
+  const hopFrames = Math.round(EMBEDDING_HOP_MS / HOP_MS);
+  const minFrames = Math.round(windowFrames / 4);
+  const dims = MFCC_COUNT - 1;
+  const embeddings: Float64Array[] = [];
+  const centers: number[] = [];
+
+  for (let start = 0; start < mfccs.length; start += hopFrames) {
+    const end = Math.min(start + windowFrames, mfccs.length);
+    const mean = new Float64Array(dims);
+    const squares = new Float64Array(dims);
+    let count = 0;
+    let centerSum = 0;
+
+    for (let frame = start; frame < end; frame++) {
+      const mfcc = mfccs[frame];
+      if (!mfcc) {
+        continue;
+      }
+      for (let d = 0; d < dims; d++) {
+        mean[d] += mfcc[d];
+        squares[d] += mfcc[d] * mfcc[d];
+      }
+      count++;
+      centerSum += frame;
+    }
+
+    if (count < minFrames) {
+      continue;
+    }
+
+    const embedding = new Float64Array(dims * 2);
+    for (let d = 0; d < dims; d++) {
+      const m = mean[d] / count;
+      embedding[d] = m;
+      embedding[dims + d] = Math.sqrt(Math.max(0, squares[d] / count - m * m));
+    }
+    embeddings.push(embedding);
+    centers.push(centerSum / count);
+  }
+
+  return { embeddings, centers };
+}
+
+/**
+ * Z-normalize every embedding dimension in place
+ */
+function normalizeColumns(vectors: Float64Array[]): void {
+  const dims = vectors[0].length;
+  for (let d = 0; d < dims; d++) {
+    let mean = 0;
+    for (const vector of vectors) mean += vector[d];
+    mean /= vectors.length;
+    let variance = 0;
+    for (const vector of vectors) variance += (vector[d] - mean) ** 2;
+    const std = Math.sqrt(variance / vectors.length) || 1;
+    for (const vector of vectors) vector[d] = (vector[d] - mean) / std;
+  }
+}
+
+function distance(a: Float64Array, b: Float64Array): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    const diff = a[i] - b[i];
+    sum += diff * diff;
+  }
+  return Math.sqrt(sum);
+}
+
+/**
+ * Small deterministic PRNG so the same audio always yields the same clustering
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state * 1664525 + 1013904223) >>> 0;
+    return state / 0x100000000;
+  };
+}
+
+function kMeans(vectors: Float64Array[], k: number, random: () => number): Int32Array {
+  const labels = new Int32Array(vectors.length);
+  if (k <= 1) {
+    return labels;
+  }
+
+  // k-means++ seeding
+  const centroids: Float64Array[] = [Float64Array.from(vectors[Math.floor(random() * vectors.length)])];
+  while (centroids.length < k) {
+    const weights = vectors.map(vector => Math.min(...centroids.map(c => distance(vector, c))) ** 2);
+    const total = weights.reduce((sum, weight) => sum + weight, 0);
+    let target = random() * total;
+    let chosen = 0;
+    for (; chosen < weights.length - 1; chosen++) {
+      target -= weights[chosen];
+      if (target <= 0) break;
+    }
+    centroids.push(Float64Array.from(vectors[chosen]));
+  }
+
+  for (let iteration = 0; iteration < 50; iteration++) {
+    let changed = false;
+    vectors.forEach((vector, index) => {
+      let best = 0;
+      let bestDistance = Infinity;
+      centroids.forEach((centroid, c) => {
+        const d = distance(vector, centroid);
+        if (d < bestDistance) {
+          bestDistance = d;
+          best = c;
+        }
+      });
+      if (labels[index] !== best) {
+        labels[index] = best;
+        changed = true;
+      }
+    });
+
+    centroids.forEach((centroid, c) => {
+      const members = vectors.filter((_, index) => labels[index] === c);
+      if (members.length === 0) return;
+      centroid.fill(0);
+      members.forEach(member => member.forEach((value, d) => { centroid[d] += value / members.length; }));
+    });
+
+    if (!changed && iteration > 0) {
+      break;
+    }
+  }
+
+  return labels;
+}
+
+/**
+ * Mean silhouette score over a sample of points
+ */
+function silhouette(vectors: Float64Array[], labels: Int32Array, k: number, random: () => number): number {
+  const indices = vectors.map((_, index) => index);
+  if (indices.length > SILHOUETTE_SAMPLE_SIZE) {
+    for (let i = indices.length - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1));
+      [indices[i], indices[j]] = [indices[j], indices[i]];
+    }
+    indices.length = SILHOUETTE_SAMPLE_SIZE;
+  }
+
+  let total = 0;
+  for (const i of indices) {
+    const sums = new Float64Array(k);
+    const counts = new Int32Array(k);
+    for (const j of indices) {
+      if (i === j) continue;
+      sums[labels[j]] += distance(vectors[i], vectors[j]);
+      counts[labels[j]]++;
+    }
+    const own = labels[i];
+    const a = counts[own] > 0 ? sums[own] / counts[own] : 0;
+    let b = Infinity;
+    for (let c = 0; c < k; c++) {
+      if (c !== own && counts[c] > 0) {
+        b = Math.min(b, sums[c] / counts[c]);
+      }
+    }
+    if (b !== Infinity && counts[own] > 0) {
+      total += (b - a) / Math.max(a, b);
+    }
+  }
+  return total / indices.length;
+}
+
+/**
+ * Cluster embeddings, trying minSpeakers..maxSpeakers clusters (at least 2) and keeping the best silhouette
+ */
+function clusterSpeakers(embeddings: Float64Array[], minSpeakers: number, maxSpeakers: number): Int32Array {
+  const random = createRandom(embeddings.length);
+  let bestLabels: Int32Array = new Int32Array(embeddings.length);
+  // A single speaker is only an option when the caller allows it
+  let bestScore = minSpeakers > 1 ? -Infinity : MIN_SILHOUETTE;
+  const minK = Math.max(2, minSpeakers);
+  const maxK = Math.min(maxSpeakers, embeddings.length - 1);
+
+  for (let k = minK; k <= maxK; k++) {
+    const labels = kMeans(embeddings, k, random);
+    const score = silhouette(embeddings, labels, k, random);
+    post({ type: 'progress', stage: 'clustering', progress: (k - minK + 1) / Math.max(1, maxK - minK + 1) });
+    if (score > bestScore) {
+      bestScore = score;
+      bestLabels = labels;
+    }
+  }
+
+  return bestLabels;
+}
+
+/**
+ * Turn per-frame labels (-1 = silence) into segments, absorbing turns that are too short
+ * Each frame covers one hop, so segments of different speakers touch but never overlap
+ */
+function buildSegments(frameLabels: Int32Array, hopSeconds: number): DiarizationSegment[] {
+  const runs: { label: number; start: number; end: number }[] = [];
+  for (let frame = 0; frame < frameLabels.length; frame++) {
+    const label = frameLabels[frame];
+    if (label < 0) continue;
+    const start = frame * hopSeconds;
+    const end = (frame + 1) * hopSeconds;
+    const last = runs[runs.length - 1];
+    if (last && last.label === label && start - last.end <= hopSeconds) {
+      last.end = end;
+    } else {
+      runs.push({ label, start, end });
+    }
+  }
+
+  // Reassign short runs to the speaker they directly touch (preceding first, then following)
+  const minSeconds = MIN_SEGMENT_MS / 1000;
+  for (let i = 0; i < runs.length; i++) {
+    const run = runs[i];
+    if (run.end - run.start >= minSeconds) continue;
+    const previous = runs[i - 1];
+    const next = runs[i + 1];
+    if (previous && run.start - previous.end <= hopSeconds) {
+      run.label = previous.label;
+    } else if (next && next.start - run.end <= hopSeconds) {
+      run.label = next.label;
+    }
+  }
+
+  const merged: { label: number; start: number; end: number }[] = [];
+  runs.forEach(run => {
+    const last = merged[merged.length - 1];
+    if (last && last.label === run.label && run.start - last.end <= hopSeconds) {
+      last.end = run.end;
+    } else {
+      merged.push({ ...run });
+    }
+  });
+
+  // Name speakers in order of first appearance: Speaker A, Speaker B, ...
+  const names = new Map<number, string>();
+  return merged.map(run => {
+    if (!names.has(run.label)) {
+      names.set(run.label, `Speaker ${String.fromCharCode(65 + names.size)}`);
+    }
+    return {
+      speaker: names.get(run.label)!,
+      start: Math.round(run.start * 1000) / 1000,
+      end: Math.round(run.end * 1000) / 1000,
+    };
+  });
+}
@@ -26,7 +26,10 @@ try {
 
 const API_KEY = process.env.VITE_ASSEMBLY_AI_API_KEY ||
                 process.env.API_KEY;
-const API_URL = 'https://api.assemblyai.com/v2';
+// Set ASSEMBLY_AI_BASE_URL=http://localhost:8787/v2 to run against the local mock server
+const API_URL = process.env.ASSEMBLY_AI_BASE_URL ||
+                process.env.VITE_ASSEMBLY_AI_BASE_URL ||
+                'https://api.assemblyai.com/v2';
 
 if (!API_KEY) {
   console.error('❌ API key not found');